@@ -6,28 +6,111 @@ import CameraControls from './face-detection/CameraControls';
 import FaceDetectionDisplay from './face-detection/FaceDetectionDisplay';
 import SavedFacesDialog from './face-detection/SavedFacesDialog';
 import RecognitionStatus from './face-detection/RecognitionStatus';
-import { FaceDetectionService, DetectedFace } from '../services/FaceDetectionService';
-import { CameraManager } from '../services/CameraManager';
+import PersonDetailDialog from './face-detection/PersonDetailDialog';
+import CameraSettings from './face-detection/CameraSettings';
+import { FaceDetectionService, DetectedFace, UNIDENTIFIED_FACE_NAME } from '../services/FaceDetectionService';
+import { ActiveCameraSettings, CameraDevice, CameraManager, CameraPreference } from '../services/CameraManager';
+import { DescriptorIndex } from '../services/DescriptorIndex';
+import { FaceTracker, TrackedFace } from '../services/FaceTracker';
+import { DetectionStats, DetectionWorkerClient } from '../services/DetectionWorkerClient';
+import { DetectionPipeline, DETECTORS, PIPELINE_MODES } from '../services/DetectionPipeline';
+import { RecognitionSettingsService } from '../services/RecognitionSettingsService';
+import { UnknownFaceCollector } from '../services/UnknownFaceCollector';
+import { UnknownFaceAlerter } from '../services/UnknownFaceAlerter';
+import { FaceQualityService } from '../services/FaceQualityService';
+import { PersonService } from '../services/PersonService';
+import { NotificationsService, RecognitionCamera } from '../services/NotificationsService';
+import { NotificationRulesService } from '../services/NotificationRulesService';
+import { ClipRecorder } from '../services/ClipRecorder';
 import { Button } from './ui/button';
 import { Save } from 'lucide-react';
 
 const FaceDetectionCamera = () => {
   const { toast } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
+  const trackerRef = useRef(new FaceTracker());
+  const detectorRef = useRef(new DetectionWorkerClient());
+  const animationFrameRef = useRef<number | null>(null);
+  // Auto-saves each unknown individual once per session, with their best capture
+  const collectorRef = useRef(new UnknownFaceCollector({}, (faceId, face, isNewIndividual) => {
+    setSavedFaces(FaceDetectionService.getFacesFromLocalStorage());
+    // Each new unknown individual is an event of its own, with a clip,
+    // unless unknown-face alerts report them instead
+    if (isNewIndividual && !NotificationsService.getSettings().alertOnUnknown && NotificationRulesService.shouldNotify({
+      unknown: true,
+      cameraId: cameraRef.current.id,
+    })) {
+      NotificationsService.sendRecognitionNotification(
+        UNIDENTIFIED_FACE_NAME,
+        faceId,
+        face.image,
+        'Unknown face seen',
+        {
+          unknown: true,
+          camera: cameraRef.current,
+          captureClip: () => clipRecorderRef.current?.capture() ?? Promise.resolve(null),
+        }
+      );
+    }
+  }));
+  // Alerts once per unknown individual that stays unrecognized on camera.
+  // Matches of unnamed auto-saves are still unknown, and the alert links
+  // this session's saved face so enrolling it promotes that record.
+  const alerterRef = useRef(new UnknownFaceAlerter({}, (face, unrecognizedMs) => {
+    if (!videoRef.current || !NotificationRulesService.shouldNotify({
+      unknown: true,
+      cameraId: cameraRef.current.id,
+    })) return;
+    
+    const [captured] = FaceDetectionService.captureFaceImage(videoRef.current, [{ ...face }]);
+    NotificationsService.sendRecognitionNotification(
+      'Unknown Person',
+      collectorRef.current.findSaved(face)?.faceId,
+      captured?.image,
+      `Unrecognized for ${Math.round(unrecognizedMs / 1000)} seconds`,
+      {
+        unknown: true,
+        kind: 'unknown_alert',
+        descriptor: face.descriptor,
+        camera: cameraRef.current,
+        captureClip: () => clipRecorderRef.current?.capture() ?? Promise.resolve(null),
+      }
+    );
+  }, face => FaceDetectionService.isUnidentified(face)));
+  // Rolling recording of the active stream, for clips around events
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const cameraRef = useRef<RecognitionCamera>({ id: 'default', label: 'Camera' });
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [modelsLoaded, setModelsLoaded] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
-  const [detectedFaces, setDetectedFaces] = useState<DetectedFace[]>([]);
+  const [detectedFaces, setDetectedFaces] = useState<TrackedFace[]>([]);
   const [savedFaces, setSavedFaces] = useState<DetectedFace[]>([]);
   const [databaseFaces, setDatabaseFaces] = useState<DetectedFace[]>([]);
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [cameraPreference, setCameraPreference] = useState<CameraPreference>(() => CameraManager.getPreference());
+  const [cameraDevices, setCameraDevices] = useState<CameraDevice[]>([]);
+  const [activeCamera, setActiveCamera] = useState<ActiveCameraSettings | null>(null);
   const [showSavedFaces, setShowSavedFaces] = useState(false);
   const [processingFaces, setProcessingFaces] = useState(false);
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
+  const [saveExtraAngles, setSaveExtraAngles] = useState(false);
+  const [pendingUnknowns, setPendingUnknowns] = useState(0);
+  const [detectionStats, setDetectionStats] = useState<DetectionStats | null>(null);
+  const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
+  const [recordClips, setRecordClips] = useState(ClipRecorder.isSupported);
+  const [alertOnUnknown, setAlertOnUnknown] = useState(() => NotificationsService.getSettings().alertOnUnknown);
+  // Read by the detection loop, which keeps the closure of the render that started it
+  const alertOnUnknownRef = useRef(alertOnUnknown);
+  alertOnUnknownRef.current = alertOnUnknown;
+  const autoSaveEnabledRef = useRef(autoSaveEnabled);
+  autoSaveEnabledRef.current = autoSaveEnabled;
+  const [unknownAlertSeconds, setUnknownAlertSeconds] = useState(() => NotificationsService.getSettings().unknownAlertSeconds);
+  // Detect-only mode computes no descriptors, so faces can be neither matched nor saved
+  const recognizing = DetectionPipeline.recognizes(RecognitionSettingsService.getSettings().pipelineMode);
 
   // Load saved faces from localStorage and database on component mount
   useEffect(() => {
+    const detector = detectorRef.current;
     const loadFaces = async () => {
       setSavedFaces(FaceDetectionService.getFacesFromLocalStorage());
       await loadDatabaseFaces();
@@ -41,13 +124,54 @@ const FaceDetectionCamera = () => {
       if (stream) {
         stream.getTracks().forEach(track => track.stop());
       }
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      detector.stop();
     };
   }, []);
 
+  // Keep the camera list current as cameras are plugged in and removed
+  useEffect(() => {
+    CameraManager.listDevices()
+      .then(setCameraDevices)
+      .catch(error => console.error('Error listing cameras:', error));
+    
+    return CameraManager.watchDevices(setCameraDevices);
+  }, []);
+
+  useEffect(() => {
+    collectorRef.current.setOptions({ saveExtraSamples: saveExtraAngles });
+  }, [saveExtraAngles]);
+
+  useEffect(() => {
+    alerterRef.current.setOptions({ alertAfterMs: unknownAlertSeconds * 1000 });
+    // Faces seen before alerts were turned on start their wait afresh
+    if (!alertOnUnknown) alerterRef.current.reset();
+    NotificationsService.updateSettings({ alertOnUnknown, unknownAlertSeconds });
+  }, [alertOnUnknown, unknownAlertSeconds]);
+
+  useEffect(() => {
+    if (!stream || !recordClips) return;
+    
+    const recorder = new ClipRecorder(stream);
+    recorder.start();
+    clipRecorderRef.current = recorder;
+    
+    return () => {
+      recorder.stop();
+      clipRecorderRef.current = null;
+    };
+  }, [stream, recordClips]);
+
   const loadDatabaseFaces = async () => {
     try {
       console.log('Loading faces from database...');
-      const faces = await FaceDetectionService.getFacesFromDatabase();
+      // Persons are loaded alongside faces so matches are labelled by person
+      const [faces] = await Promise.all([
+        FaceDetectionService.getFacesFromDatabase(),
+        PersonService.getAllPersons(),
+      ]);
       console.log(`Loaded ${faces.length} faces from database`);
       faces.forEach(face => {
         if (face.descriptor) {
@@ -73,22 +197,42 @@ const FaceDetectionCamera = () => {
     setModelsLoaded(true);
   };
 
-  const startCamera = async () => {
+  const facingMode = cameraPreference.facingMode;
+  const activeDevice = cameraDevices.find(device => device.deviceId === activeCamera?.deviceId);
+  cameraRef.current = {
+    id: activeCamera?.deviceId || 'default',
+    label: activeDevice?.label || (facingMode === 'user' ? 'Front camera' : 'Back camera'),
+  };
+
+  const startCamera = async (preference: CameraPreference = cameraPreference) => {
     try {
       // Stop any existing stream
       if (stream) {
         stream.getTracks().forEach(track => track.stop());
       }
       
-      const currentStream = await CameraManager.startCamera(videoRef.current, facingMode);
+      const currentStream = await CameraManager.startCamera(videoRef.current, preference);
       
       if (currentStream) {
         setStream(currentStream);
         setIsCameraActive(true);
         
+        const settings = CameraManager.getActiveSettings(currentStream);
+        setActiveCamera(settings);
+        
+        // Labels are only revealed once access has been granted
+        const devices = await CameraManager.listDevices();
+        setCameraDevices(devices);
+        
+        // The track ends on its own when the camera is unplugged
+        currentStream.getVideoTracks()[0]?.addEventListener('ended', () => handleCameraLost(currentStream, preference));
+        
+        const label = devices.find(device => device.deviceId === settings?.deviceId)?.label;
         toast({
           title: "Camera activated",
-          description: `Using ${facingMode === 'user' ? 'front' : 'back'} camera`,
+          description: preference.deviceId && settings?.deviceId !== preference.deviceId
+            ? `Selected camera is unavailable; using ${label || 'the default camera'}`
+            : `Using ${label || (preference.facingMode === 'user' ? 'front camera' : 'back camera')}`,
         });
         
         // Reload faces to ensure we have latest data
@@ -104,27 +248,73 @@ const FaceDetectionCamera = () => {
     }
   };
 
-  const stopCamera = () => {
-    CameraManager.stopCamera(stream, videoRef.current);
+  const stopCamera = (currentStream: MediaStream | null = stream) => {
+    CameraManager.stopCamera(currentStream, videoRef.current);
     setStream(null);
     setIsCameraActive(false);
+    setActiveCamera(null);
     setDetectedFaces([]);
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    trackerRef.current.reset();
+    collectorRef.current.reset();
+    alerterRef.current.reset();
+    setPendingUnknowns(0);
+    setDetectionStats(null);
+  };
+
+  // A camera disappeared mid-session; carry on with the default camera but keep
+  // the remembered choice so it is used again once it is plugged back in
+  const handleCameraLost = (lostStream: MediaStream, preference: CameraPreference) => {
+    stopCamera(lostStream);
+    toast({
+      variant: "destructive",
+      title: "Camera disconnected",
+      description: "Switching to the default camera",
+    });
+    
+    setTimeout(() => startCamera({ ...preference, deviceId: undefined }), 300);
   };
 
-  const switchCamera = async () => {
-    const newFacingMode = facingMode === 'user' ? 'environment' : 'user';
-    setFacingMode(newFacingMode);
+  const changeCameraPreference = (preference: CameraPreference) => {
+    setCameraPreference(preference);
+    CameraManager.savePreference(preference);
     
     // Only restart camera if it's currently active
     if (isCameraActive) {
-      await stopCamera();
+      stopCamera();
       // Small timeout to ensure camera has fully stopped
-      setTimeout(() => startCamera(), 300);
+      setTimeout(() => startCamera(preference), 300);
+    }
+  };
+
+  // Cycles through the connected cameras, or front/back when there is only one
+  const switchCamera = () => {
+    if (cameraDevices.length > 1) {
+      const index = cameraDevices.findIndex(device => device.deviceId === (activeCamera?.deviceId ?? cameraPreference.deviceId));
+      const next = cameraDevices[(index + 1) % cameraDevices.length];
+      changeCameraPreference({ ...cameraPreference, deviceId: next.deviceId });
+    } else {
+      changeCameraPreference({
+        ...cameraPreference,
+        deviceId: undefined,
+        facingMode: facingMode === 'user' ? 'environment' : 'user',
+      });
     }
   };
 
   // Capture current face and save it to database
   const captureFace = async () => {
+    if (!recognizing) {
+      toast({
+        title: "Recognition is off",
+        description: "Choose a detection mode that recognizes faces to save them",
+      });
+      return;
+    }
+    
     if (detectedFaces.length === 0) {
       toast({
         title: "No faces detected",
@@ -139,7 +329,30 @@ const FaceDetectionCamera = () => {
       // Capture the current frame from video
       if (!videoRef.current) return;
       
-      const capturedFaces = FaceDetectionService.captureFaceImage(videoRef.current, detectedFaces);
+      // Score each face first; samples too poor to recognize from are not stored
+      const video = videoRef.current;
+      const assessed = detectedFaces.map(face => ({
+        face: { ...face },
+        quality: FaceDetectionService.assessQuality(video, face),
+      }));
+      const rejected = assessed.filter(({ quality }) => quality.level === 'reject');
+      const warned = assessed.filter(({ quality }) => quality.level === 'warn');
+      
+      rejected.forEach(({ quality }) => {
+        toast({
+          variant: "destructive",
+          title: "Face not saved",
+          description: FaceQualityService.describe(quality),
+        });
+      });
+      
+      const capturedFaces = FaceDetectionService.captureFaceImage(
+        video,
+        assessed
+          .filter(({ quality }) => quality.level !== 'reject')
+          .map(({ face, quality }) => ({ ...face, quality: quality.score }))
+      );
+      if (capturedFaces.length === 0) return;
       
       // Save to database
       for (const face of capturedFaces) {
@@ -159,6 +372,13 @@ const FaceDetectionCamera = () => {
         title: "Face captured",
         description: `Saved ${capturedFaces.length} face(s) to database. ${updatedFaces.length} total faces in database.`,
       });
+      
+      warned.forEach(({ quality }) => {
+        toast({
+          title: "Low quality sample",
+          description: `${FaceQualityService.describe(quality)}. Consider capturing another.`,
+        });
+      });
     } catch (error) {
       console.error('Error capturing face:', error);
       toast({
@@ -171,69 +391,96 @@ const FaceDetectionCamera = () => {
     }
   };
 
+  // Match, track and draw one frame of detections
+  const handleDetections = (currentDetectedFaces: DetectedFace[]) => {
+    // Results that arrive after the camera stopped are discarded
+    if (!videoRef.current || !canvasRef.current || animationFrameRef.current === null) return;
+    
+    // Per-frame matches are only votes; the tracker decides once a face is stable
+    const matches = DescriptorIndex.size > 0
+      ? currentDetectedFaces.map(face => FaceDetectionService.compareFaces(face))
+      : currentDetectedFaces.map(() => undefined);
+    const trackedFaces = trackerRef.current.update(currentDetectedFaces, matches);
+    
+    trackedFaces.forEach(face => {
+      if (!face.stateChanged) return;
+      
+      // Unnamed auto-saves are strangers seen before, not known people
+      if (face.recognitionState === 'recognized' && !FaceDetectionService.isUnidentified(face)) {
+        console.log(`Match found for face: ${face.name || 'Unknown'}`);
+        // Notification rules decide; without any, the person's notify_on_recognition flag does
+        if (NotificationRulesService.shouldNotify({
+          unknown: false,
+          personId: face.personId,
+          confidence: face.similarity,
+          cameraId: cameraRef.current.id,
+          notifyOnRecognition: face.notifyOnRecognition,
+        })) {
+          toast({
+            title: `Recognized: ${face.name}`,
+            description: face.notes || "This person is in your database",
+          });
+          
+          const [captured] = FaceDetectionService.captureFaceImage(videoRef.current, [{ ...face }]);
+          NotificationsService.sendRecognitionNotification(
+            face.name || 'Unknown',
+            face.matchedFaceId,
+            captured?.image,
+            face.notes,
+            {
+              personId: face.personId,
+              cooldownSeconds: face.notificationCooldownSeconds,
+              confidence: face.similarity,
+              camera: cameraRef.current,
+              captureClip: () => clipRecorderRef.current?.capture() ?? Promise.resolve(null),
+            }
+          );
+        }
+      }
+    });
+    
+    // Read live: without descriptors every face looks unknown and could not be saved
+    const canRecognize = DetectionPipeline.recognizes(RecognitionSettingsService.getSettings().pipelineMode);
+    
+    if (canRecognize && autoSaveEnabledRef.current) {
+      collectorRef.current.observe(trackedFaces, videoRef.current);
+      setPendingUnknowns(collectorRef.current.pendingCount);
+    }
+    
+    if (canRecognize && alertOnUnknownRef.current) {
+      alerterRef.current.observe(trackedFaces);
+    }
+    
+    // Keep the overlay in video pixels, which is what detection boxes use
+    canvasRef.current.width = videoRef.current.videoWidth;
+    canvasRef.current.height = videoRef.current.videoHeight;
+    FaceDetectionService.drawFaces(canvasRef.current, trackedFaces);
+    setDetectedFaces(trackedFaces);
+    setDetectionStats(detectorRef.current.stats);
+  };
+
   // Handle face detection when video is playing
   const handleVideoPlay = () => {
     if (!canvasRef.current || !videoRef.current || !modelsLoaded) return;
     
-    const detectFaces = async () => {
+    detectorRef.current.start();
+    
+    // Detection runs off the main thread; this loop only hands over frames
+    // while the detector is idle and renders whatever comes back
+    const detectFaces = () => {
       if (!videoRef.current || !canvasRef.current || !isCameraActive || !modelsLoaded) return;
       
-      try {
-        const currentDetectedFaces = await FaceDetectionService.detectFaces(
-          videoRef.current, 
-          canvasRef.current
-        );
-        
-        // If we have database faces, check for matches
-        if (databaseFaces.length > 0) {
-          console.log(`Checking for matches against ${databaseFaces.length} database faces`);
-          const recognizedFaces = currentDetectedFaces.map(face => {
-            const match = FaceDetectionService.compareFaces(face, databaseFaces);
-            if (match) {
-              console.log(`Match found for face: ${match.name || 'Unknown'}`);
-              // If this face has notify_on_recognition set, show notification
-              if (match.notifyOnRecognition) {
-                toast({
-                  title: `Recognized: ${match.name}`,
-                  description: match.notes || "This person is in your database",
-                });
-              }
-              return match;
-            }
-            
-            // No match found, auto-save if enabled
-            if (autoSaveEnabled && videoRef.current) {
-              // First get an image for the face
-              const capturedFaces = FaceDetectionService.captureFaceImage(
-                videoRef.current, 
-                [face]
-              );
-              
-              if (capturedFaces.length > 0) {
-                // Auto-save the face
-                FaceDetectionService.autoSaveUnidentifiedFace(capturedFaces[0]);
-                
-                // Update local state
-                setSavedFaces(FaceDetectionService.getFacesFromLocalStorage());
-              }
-            }
-            
-            return face;
+      if (!detectorRef.current.busy) {
+        detectorRef.current.detect(videoRef.current)
+          .then(faces => {
+            if (faces) handleDetections(faces);
+          })
+          .catch(error => {
+            console.error('Error in face detection loop:', error);
           });
-          
-          setDetectedFaces(recognizedFaces);
-        } else {
-          console.log('No database faces to match against');
-          setDetectedFaces(currentDetectedFaces);
-        }
-      } catch (error) {
-        console.error('Error in face detection loop:', error);
       }
       
-      // Continue detection if camera is active
-      if (isCameraActive && modelsLoaded) {
-        requestAnimationFrame(detectFaces);
-      }
+      animationFrameRef.current = requestAnimationFrame(detectFaces);
     };
     
     detectFaces();
@@ -258,12 +505,20 @@ const FaceDetectionCamera = () => {
           className="absolute inset-0 w-full h-full"
         />
         
+        {isCameraActive && detectionStats && (
+          <div className="absolute top-2 left-2 rounded bg-black/60 px-2 py-1 text-xs font-mono text-gray-200">
+            {detectionStats.fps.toFixed(0)} fps · {detectionStats.latencyMs} ms ·{' '}
+            {PIPELINE_MODES.find(mode => mode.value === RecognitionSettingsService.getSettings().pipelineMode)?.label} ·{' '}
+            {DETECTORS.find(detector => detector.value === RecognitionSettingsService.getDetector('live'))?.label}
+          </div>
+        )}
+        
         {!isCameraActive && modelsLoaded && (
           <CameraControls
             isCameraActive={false}
             facingMode={facingMode}
             hasFacesToSave={false}
-            onStartCamera={startCamera}
+            onStartCamera={() => startCamera()}
             onStopCamera={() => {}}
             onSwitchCamera={() => {}}
             onCaptureFace={() => {}}
@@ -273,6 +528,15 @@ const FaceDetectionCamera = () => {
         )}
       </div>
       
+      {modelsLoaded && (
+        <CameraSettings
+          devices={cameraDevices}
+          preference={cameraPreference}
+          activeSettings={activeCamera}
+          onChange={changeCameraPreference}
+        />
+      )}
+      
       {isCameraActive && (
         <>
           <div className="flex items-center mb-4 justify-between w-full">
@@ -281,18 +545,72 @@ const FaceDetectionCamera = () => {
                 type="checkbox"
                 checked={autoSaveEnabled}
                 onChange={e => setAutoSaveEnabled(e.target.checked)}
+                disabled={!recognizing}
                 className="rounded border-gray-400"
               />
               Auto-save unrecognized faces
             </label>
+            {ClipRecorder.isSupported() && (
+              <label className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="checkbox"
+                  checked={recordClips}
+                  onChange={e => setRecordClips(e.target.checked)}
+                  className="rounded border-gray-400"
+                />
+                Record event clips
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={alertOnUnknown}
+                onChange={e => setAlertOnUnknown(e.target.checked)}
+                disabled={!recognizing}
+                className="rounded border-gray-400"
+              />
+              Alert on unknown faces after
+              <input
+                type="number"
+                min={1}
+                max={600}
+                value={unknownAlertSeconds}
+                onChange={e => setUnknownAlertSeconds(Math.min(600, Math.max(1, Number(e.target.value) || 1)))}
+                disabled={!recognizing || !alertOnUnknown}
+                className="w-14 rounded border border-gray-600 bg-gray-800 px-1 text-white disabled:opacity-50"
+              />
+              s
+            </label>
+            {recognizing && autoSaveEnabled && (
+              <label className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="checkbox"
+                  checked={saveExtraAngles}
+                  onChange={e => setSaveExtraAngles(e.target.checked)}
+                  className="rounded border-gray-400"
+                />
+                Save extra angles
+              </label>
+            )}
+            {!recognizing && (
+              <span className="text-sm text-yellow-400">
+                Detect-only mode: saving and unknown-face alerts are off
+              </span>
+            )}
+            {recognizing && autoSaveEnabled && pendingUnknowns > 0 && (
+              <span className="text-sm text-yellow-400">
+                {pendingUnknowns} unknown {pendingUnknowns === 1 ? 'face' : 'faces'} pending
+              </span>
+            )}
           </div>
           
           <CameraControls
             isCameraActive={true}
             facingMode={facingMode}
-            hasFacesToSave={detectedFaces.length > 0}
-            onStartCamera={startCamera}
-            onStopCamera={stopCamera}
+            cameraLabel={cameraDevices.length > 1 ? activeDevice?.label : undefined}
+            hasFacesToSave={recognizing && detectedFaces.length > 0}
+            onStartCamera={() => startCamera()}
+            onStopCamera={() => stopCamera()}
             onSwitchCamera={switchCamera}
             onCaptureFace={captureFace}
             onViewSaved={() => setShowSavedFaces(true)}
@@ -303,8 +621,8 @@ const FaceDetectionCamera = () => {
             <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
               {detectedFaces.map((face) => (
                 <div key={face.id} className="space-y-2">
-                  <RecognitionStatus face={face} />
-                  {!face.isRecognized && (
+                  <RecognitionStatus face={face} onViewPerson={setSelectedPersonId} />
+                  {recognizing && !face.isRecognized && (
                     <Button
                       size="sm"
                       onClick={() => captureFace()}
@@ -330,6 +648,13 @@ const FaceDetectionCamera = () => {
         savedFaces={savedFaces}
         onUpdateFaces={loadDatabaseFaces}
       />
+      
+      <PersonDetailDialog
+        personId={selectedPersonId}
+        open={!!selectedPersonId}
+        onOpenChange={(open) => !open && setSelectedPersonId(null)}
+        onUpdatePerson={loadDatabaseFaces}
+      />
     </div>
   );
 };
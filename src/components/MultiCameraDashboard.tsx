@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import ModelLoader from './face-detection/ModelLoader';
+import CameraFeed, { CameraFeedConfig } from './face-detection/CameraFeed';
+import { CameraDevice, CameraManager } from '../services/CameraManager';
+import { DetectionScheduler } from '../services/DetectionScheduler';
+import { FaceDetectionService } from '../services/FaceDetectionService';
+import { TrackedFace } from '../services/FaceTracker';
+import { NotificationsService } from '../services/NotificationsService';
+import { NotificationRulesService } from '../services/NotificationRulesService';
+import { PersonService } from '../services/PersonService';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus } from 'lucide-react';
+
+const MAX_FEEDS = 4;
+const FEEDS_STORAGE_KEY = 'camera-dashboard-feeds';
+
+const loadFeeds = (): CameraFeedConfig[] => {
+  try {
+    const saved = localStorage.getItem(FEEDS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error reading camera dashboard feeds:', error);
+    return [];
+  }
+};
+
+/**
+ * Runs recognition on up to four cameras at once. All feeds share one
+ * detection worker through DetectionScheduler, and every recognition event
+ * records the camera it came from.
+ */
+const MultiCameraDashboard = () => {
+  const { toast } = useToast();
+  const schedulerRef = useRef(new DetectionScheduler());
+  const [modelsLoaded, setModelsLoaded] = useState(false);
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const [feeds, setFeeds] = useState<CameraFeedConfig[]>(loadFeeds);
+  const [deviceToAdd, setDeviceToAdd] = useState<string>('');
+
+  useEffect(() => {
+    CameraManager.listDevices()
+      .then(setDevices)
+      .catch(error => console.error('Error listing cameras:', error));
+
+    // Matches are labelled by person, so both are loaded into the index
+    Promise.all([FaceDetectionService.getFacesFromDatabase(), PersonService.getAllPersons()])
+      .catch(error => console.error('Error loading faces for the camera dashboard:', error));
+
+    const scheduler = schedulerRef.current;
+    const unwatch = CameraManager.watchDevices(setDevices);
+    return () => {
+      unwatch();
+      scheduler.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(feeds));
+  }, [feeds]);
+
+  useEffect(() => {
+    if (modelsLoaded && feeds.length > 0) {
+      schedulerRef.current.start();
+    } else {
+      schedulerRef.current.stop();
+    }
+  }, [modelsLoaded, feeds.length]);
+
+  const unusedDevices = devices.filter(device => !feeds.some(feed => feed.deviceId === device.deviceId));
+
+  const addFeed = async () => {
+    let device = unusedDevices.find(d => d.deviceId === deviceToAdd) ?? unusedDevices[0];
+
+    // Without camera access the browser hides device IDs, so ask once first
+    if (!device) {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+        CameraManager.stopCamera(stream, null);
+        const listed = await CameraManager.listDevices();
+        setDevices(listed);
+        device = listed.find(d => !feeds.some(feed => feed.deviceId === d.deviceId));
+      } catch (error) {
+        console.error('Error accessing camera:', error);
+      }
+    }
+
+    if (!device) {
+      toast({
+        variant: "destructive",
+        title: "No camera available",
+        description: "Connect another camera or grant camera permissions",
+      });
+      return;
+    }
+
+    setFeeds(prev => [...prev, { id: `feed_${Date.now()}`, deviceId: device!.deviceId, label: device!.label }]);
+    setDeviceToAdd('');
+  };
+
+  const updateFeed = (id: string, changes: Partial<CameraFeedConfig>) => {
+    setFeeds(prev => prev.map(feed => feed.id === id ? { ...feed, ...changes } : feed));
+  };
+
+  const handleRecognized = async (feed: CameraFeedConfig, face: TrackedFace, video: HTMLVideoElement) => {
+    console.log(`Recognized ${face.name} on ${feed.label}`);
+    const notify = NotificationRulesService.shouldNotify({
+      unknown: false,
+      personId: face.personId,
+      confidence: face.similarity,
+      cameraId: feed.deviceId,
+      notifyOnRecognition: face.notifyOnRecognition,
+    });
+    if (!notify) return;
+
+    toast({
+      title: `Recognized: ${face.name}`,
+      description: `On ${feed.label}${face.notes ? ` · ${face.notes}` : ''}`,
+    });
+
+    const [captured] = FaceDetectionService.captureFaceImage(video, [{ ...face }]);
+    await NotificationsService.sendRecognitionNotification(
+      face.name || 'Unknown',
+      face.matchedFaceId,
+      captured?.image,
+      face.notes,
+      {
+        personId: face.personId,
+        cooldownSeconds: face.notificationCooldownSeconds,
+        confidence: face.similarity,
+        camera: { id: feed.deviceId, label: feed.label },
+      }
+    );
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-4">
+      {!modelsLoaded && (
+        <div className="relative h-64 rounded-lg bg-black overflow-hidden">
+          <ModelLoader onModelsLoaded={() => setModelsLoaded(true)} />
+        </div>
+      )}
+
+      {modelsLoaded && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {unusedDevices.length > 0 && (
+              <Select value={deviceToAdd} onValueChange={setDeviceToAdd} disabled={feeds.length >= MAX_FEEDS}>
+                <SelectTrigger className="w-64 bg-gray-800 border-gray-700 text-white">
+                  <SelectValue placeholder="Choose a camera" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unusedDevices.map(device => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              onClick={addFeed}
+              disabled={feeds.length >= MAX_FEEDS}
+              className="bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Camera
+            </Button>
+            <span className="text-sm text-gray-400">
+              {feeds.length} of {MAX_FEEDS} cameras
+            </span>
+          </div>
+
+          {feeds.length === 0 ? (
+            <p className="py-12 text-center text-gray-500">
+              Add two to four cameras to watch them side by side
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {feeds.map(feed => (
+                <CameraFeed
+                  key={feed.id}
+                  feed={feed}
+                  scheduler={schedulerRef.current}
+                  // Before access is granted no devices are listed, so feeds just try to start
+                  available={devices.length === 0 || devices.some(device => device.deviceId === feed.deviceId)}
+                  onLabelChange={(label) => updateFeed(feed.id, { label })}
+                  onRemove={() => setFeeds(prev => prev.filter(f => f.id !== feed.id))}
+                  onRecognized={(face, video) => handleRecognized(feed, face, video)}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MultiCameraDashboard;
@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import PersonDetailDialog from './face-detection/PersonDetailDialog';
+import FaceImage from './face-detection/FaceImage';
+import { FaceDetectionService } from '../services/FaceDetectionService';
+import {
+  VideoAnalysisProgress,
+  VideoAnalysisResult,
+  VideoAnalysisService,
+  VideoSubject
+} from '../services/VideoAnalysisService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Slider } from './ui/slider';
+import { FileVideo, ScanFace, Square, UserPlus } from 'lucide-react';
+
+const MIN_STRIDE = 0.25;
+const MAX_STRIDE = 5;
+
+/**
+ * Scans a local video file for faces and shows who appears when, with
+ * jump-to-timestamp and enrollment of unknown faces
+ */
+const VideoFileAnalyzer = () => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [stride, setStride] = useState(1);
+  const [progress, setProgress] = useState<VideoAnalysisProgress | null>(null);
+  const [result, setResult] = useState<VideoAnalysisResult | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [enrolling, setEnrolling] = useState<string | null>(null);
+  const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
+
+  const isAnalyzing = progress !== null;
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    abortRef.current?.abort();
+    setFile(selected);
+    setVideoUrl(URL.createObjectURL(selected));
+    setResult(null);
+    setNames({});
+  };
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ time: 0, duration: 0, facesFound: 0 });
+
+    try {
+      const analysis = await VideoAnalysisService.analyze(file, stride, setProgress, controller.signal);
+      setResult(analysis);
+      setNames(Object.fromEntries(
+        analysis.subjects.filter(subject => subject.kind === 'unknown').map(subject => [subject.key, ''])
+      ));
+
+      if (controller.signal.aborted) {
+        toast({
+          title: "Analysis stopped",
+          description: `Showing results up to ${VideoAnalysisService.formatTime(analysis.samples.length * stride)}`,
+        });
+      }
+    } catch (error) {
+      console.error('Error analyzing video:', error);
+      toast({
+        variant: "destructive",
+        title: "Analysis failed",
+        description: (error as Error).message,
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const jumpTo = (time: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = time;
+    videoRef.current.pause();
+  };
+
+  // Draw the boxes from the scanned frame nearest the playback position
+  const drawOverlay = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !result) return;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    const sample = VideoAnalysisService.sampleAt(result, video.currentTime);
+    const subjects = new Map(result.subjects.map(subject => [subject.key, subject]));
+
+    FaceDetectionService.drawFaces(canvas, (sample?.faces ?? []).map((face, index) => {
+      const subject = subjects.get(face.subjectKey);
+      return {
+        id: `${sample!.time}-${index}`,
+        timestamp: new Date(),
+        box: face.box,
+        name: subject?.name,
+        isRecognized: subject?.kind === 'person' || !!subject?.enrolledPersonId,
+      };
+    }));
+  };
+
+  useEffect(drawOverlay, [result]);
+
+  const handleEnroll = async (subject: VideoSubject) => {
+    const name = names[subject.key]?.trim();
+    if (!name) {
+      toast({ title: "Name required", description: "Enter a name before enrolling this face" });
+      return;
+    }
+
+    setEnrolling(subject.key);
+    try {
+      const personId = await VideoAnalysisService.enroll(subject, name);
+      if (!personId) throw new Error('Could not save the face');
+
+      setResult(prev => prev && {
+        ...prev,
+        subjects: prev.subjects.map(s => s.key === subject.key ? { ...s, name, enrolledPersonId: personId } : s),
+      });
+      toast({ title: "Person enrolled", description: `${name} will be recognized from now on` });
+    } catch (error) {
+      console.error('Error enrolling face from video:', error);
+      toast({
+        variant: "destructive",
+        title: "Enrollment failed",
+        description: (error as Error).message,
+      });
+    } finally {
+      setEnrolling(null);
+    }
+  };
+
+  const renderTimeline = (subject: VideoSubject) => (
+    <div className="relative h-4 w-full rounded bg-gray-800">
+      {subject.segments.map(segment => (
+        <button
+          key={segment.start}
+          type="button"
+          title={`${VideoAnalysisService.formatTime(segment.start)} – ${VideoAnalysisService.formatTime(segment.end)}`}
+          onClick={() => jumpTo(segment.start)}
+          className={`absolute inset-y-0 rounded-sm ${
+            subject.kind === 'person' ? 'bg-green-500 hover:bg-green-400' : 'bg-yellow-500 hover:bg-yellow-400'
+          }`}
+          style={{
+            left: `${(segment.start / result!.duration) * 100}%`,
+            width: `max(2px, ${((Math.min(segment.end, result!.duration) - segment.start) / result!.duration) * 100}%)`,
+          }}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto space-y-4">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="video/*" className="hidden" />
+
+      <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
+        {videoUrl ? (
+          <>
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              className="absolute inset-0 w-full h-full object-contain"
+              controls
+              playsInline
+              onTimeUpdate={drawOverlay}
+              onSeeked={drawOverlay}
+              onLoadedMetadata={drawOverlay}
+            />
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />
+          </>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Button onClick={() => fileInputRef.current?.click()} className="bg-green-500 hover:bg-green-600">
+              <FileVideo className="mr-2 h-4 w-4" />
+              Open Video File
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {videoUrl && (
+        <div className="w-full space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[12rem] space-y-2">
+              <Label className="text-gray-300">Scan every {stride} s</Label>
+              <Slider
+                value={[stride]}
+                min={MIN_STRIDE}
+                max={MAX_STRIDE}
+                step={0.25}
+                onValueChange={([value]) => setStride(value)}
+                disabled={isAnalyzing}
+              />
+            </div>
+            <Button
+              variant="outline"
+              className="bg-gray-700 hover:bg-gray-600 text-white border-gray-600"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isAnalyzing}
+            >
+              <FileVideo className="mr-2 h-4 w-4" />
+              Change Video
+            </Button>
+            {isAnalyzing ? (
+              <Button variant="destructive" onClick={() => abortRef.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                onClick={handleAnalyze}
+                className="bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+              >
+                <ScanFace className="mr-2 h-4 w-4" />
+                Analyze
+              </Button>
+            )}
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-400">
+                <span>
+                  Scanning {VideoAnalysisService.formatTime(progress.time)} of{' '}
+                  {VideoAnalysisService.formatTime(progress.duration)}
+                </span>
+                <span>{progress.facesFound} faces found</span>
+              </div>
+              <Progress value={progress.duration ? (progress.time / progress.duration) * 100 : 0} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="w-full space-y-3">
+          <h2 className="text-lg font-semibold text-white">
+            {result.subjects.length === 0
+              ? 'No faces found in this video'
+              : `${result.subjects.length} ${result.subjects.length === 1 ? 'person' : 'people'} in this video`}
+          </h2>
+
+          {result.subjects.map(subject => (
+            <div key={subject.key} className="flex gap-3 rounded-lg border border-gray-700 p-3">
+              <button type="button" onClick={() => subject.best && jumpTo(subject.best.time)} className="shrink-0">
+                <FaceImage
+                  image={subject.best?.face.image}
+                  alt={subject.name}
+                  className="w-16 h-16 rounded object-cover"
+                />
+              </button>
+
+              <div className="min-w-0 flex-1 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  {subject.personId || subject.enrolledPersonId ? (
+                    <button
+                      type="button"
+                      className="font-medium text-green-400 hover:underline truncate"
+                      onClick={() => setSelectedPersonId(subject.personId ?? subject.enrolledPersonId!)}
+                    >
+                      {subject.name}
+                    </button>
+                  ) : (
+                    <span className={`font-medium truncate ${subject.kind === 'person' ? 'text-green-400' : 'text-yellow-400'}`}>
+                      {subject.name}
+                    </span>
+                  )}
+                  <span className="shrink-0 text-gray-400">
+                    {subject.segments.length} {subject.segments.length === 1 ? 'appearance' : 'appearances'}
+                  </span>
+                </div>
+
+                {renderTimeline(subject)}
+
+                <div className="flex flex-wrap gap-1">
+                  {subject.segments.map(segment => (
+                    <Button
+                      key={segment.start}
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs bg-gray-800 border-gray-700 text-gray-300"
+                      onClick={() => jumpTo(segment.start)}
+                    >
+                      {VideoAnalysisService.formatTime(segment.start)}
+                    </Button>
+                  ))}
+                </div>
+
+                {subject.kind === 'unknown' && !subject.enrolledPersonId && subject.best && (
+                  <div className="flex gap-2">
+                    <Input
+                      value={names[subject.key] ?? ''}
+                      onChange={(e) => setNames(prev => ({ ...prev, [subject.key]: e.target.value }))}
+                      placeholder="Name"
+                      className="h-8 bg-gray-800 border-gray-700 text-white"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleEnroll(subject)}
+                      disabled={enrolling !== null}
+                    >
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      {enrolling === subject.key ? 'Saving...' : 'Enroll'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PersonDetailDialog
+        personId={selectedPersonId}
+        open={!!selectedPersonId}
+        onOpenChange={(open) => !open && setSelectedPersonId(null)}
+      />
+    </div>
+  );
+};
+
+export default VideoFileAnalyzer;
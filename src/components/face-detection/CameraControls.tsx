@@ -6,6 +6,7 @@ import { Camera, CameraOff, SwitchCamera, ArrowUp } from 'lucide-react';
 interface CameraControlsProps {
   isCameraActive: boolean;
   facingMode: 'user' | 'environment';
+  cameraLabel?: string; // Name of the selected device, shown instead of front/back
   hasFacesToSave: boolean;
   onStartCamera: () => void;
   onStopCamera: () => void;
@@ -18,6 +19,7 @@ interface CameraControlsProps {
 const CameraControls: React.FC<CameraControlsProps> = ({
   isCameraActive,
   facingMode,
+  cameraLabel,
   hasFacesToSave,
   onStartCamera,
   onStopCamera,
@@ -56,7 +58,7 @@ const CameraControls: React.FC<CameraControlsProps> = ({
         className="border-green-500 text-green-500 hover:bg-green-500/10"
       >
         <SwitchCamera className="mr-2 h-4 w-4" />
-        Switch Camera ({facingMode === 'user' ? 'Front' : 'Back'})
+        Switch Camera ({cameraLabel || (facingMode === 'user' ? 'Front' : 'Back')})
       </Button>
       
       <Button 
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CameraManager } from '@/services/CameraManager';
+import { DetectionScheduler } from '@/services/DetectionScheduler';
+import { DetectionStats } from '@/services/DetectionWorkerClient';
+import { DescriptorIndex } from '@/services/DescriptorIndex';
+import { DetectedFace, FaceDetectionService } from '@/services/FaceDetectionService';
+import { FaceTracker, TrackedFace } from '@/services/FaceTracker';
+import { X } from 'lucide-react';
+
+export interface CameraFeedConfig {
+  id: string;
+  deviceId: string;
+  label: string;
+}
+
+interface CameraFeedProps {
+  feed: CameraFeedConfig;
+  scheduler: DetectionScheduler;
+  available: boolean; // False while the device is unplugged
+  onLabelChange: (label: string) => void;
+  onRemove: () => void;
+  onRecognized: (face: TrackedFace, video: HTMLVideoElement) => void;
+}
+
+// Several feeds share one detector, so each asks for modest frames
+const FEED_WIDTH = 640;
+const FEED_HEIGHT = 480;
+
+type FeedStatus = 'starting' | 'live' | 'unavailable';
+
+/**
+ * One camera on the multi-camera dashboard. Frames are detected by the shared
+ * scheduler; tracking and recognition state are kept per feed.
+ */
+const CameraFeed: React.FC<CameraFeedProps> = ({
+  feed,
+  scheduler,
+  available,
+  onLabelChange,
+  onRemove,
+  onRecognized
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackerRef = useRef(new FaceTracker());
+  const onRecognizedRef = useRef(onRecognized);
+  const [status, setStatus] = useState<FeedStatus>('starting');
+  const [faces, setFaces] = useState<TrackedFace[]>([]);
+  const [stats, setStats] = useState<DetectionStats | null>(null);
+
+  onRecognizedRef.current = onRecognized;
+
+  useEffect(() => {
+    if (!available) {
+      setStatus('unavailable');
+      return;
+    }
+
+    const video = videoRef.current;
+    const tracker = trackerRef.current;
+    let stream: MediaStream | null = null;
+    let removeFeed: (() => void) | null = null;
+    let cancelled = false;
+
+    const handleDetections = (detected: DetectedFace[]) => {
+      if (!videoRef.current || !canvasRef.current) return;
+
+      const matches = DescriptorIndex.size > 0
+        ? detected.map(face => FaceDetectionService.compareFaces(face))
+        : detected.map(() => undefined);
+      const tracked = tracker.update(detected, matches);
+
+      tracked
+        .filter(face => face.stateChanged && face.recognitionState === 'recognized' && !FaceDetectionService.isUnidentified(face))
+        .forEach(face => onRecognizedRef.current(face, videoRef.current!));
+
+      canvasRef.current.width = videoRef.current.videoWidth;
+      canvasRef.current.height = videoRef.current.videoHeight;
+      FaceDetectionService.drawFaces(canvasRef.current, tracked);
+      setFaces(tracked);
+      setStats(scheduler.statsFor(feed.id));
+    };
+
+    const start = async () => {
+      setStatus('starting');
+      try {
+        stream = await CameraManager.startCamera(video, {
+          deviceId: feed.deviceId,
+          facingMode: 'user',
+          width: FEED_WIDTH,
+          height: FEED_HEIGHT,
+        });
+        if (cancelled || !stream) return;
+
+        // startCamera falls back to the default camera, which another feed may already show
+        if (CameraManager.getActiveSettings(stream)?.deviceId !== feed.deviceId) {
+          CameraManager.stopCamera(stream, video);
+          stream = null;
+          setStatus('unavailable');
+          return;
+        }
+
+        // An unplugged camera gives up its detection slots, as on stop
+        stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+          removeFeed?.();
+          removeFeed = null;
+          tracker.reset();
+          setFaces([]);
+          setStats(null);
+          setStatus('unavailable');
+        });
+        removeFeed = scheduler.addFeed(feed.id, video!, handleDetections);
+        setStatus('live');
+      } catch (error) {
+        console.error(`Error starting camera ${feed.deviceId}:`, error);
+        if (!cancelled) setStatus('unavailable');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      removeFeed?.();
+      CameraManager.stopCamera(stream, video);
+      tracker.reset();
+      setFaces([]);
+      setStats(null);
+    };
+  }, [feed.id, feed.deviceId, available, scheduler]);
+
+  const recognized = faces.filter(face => face.recognitionState === 'recognized' && !FaceDetectionService.isUnidentified(face));
+
+  return (
+    <div className="rounded-lg border border-gray-700 bg-gray-900 overflow-hidden">
+      <div className="relative aspect-[4/3] bg-black">
+        <video
+          ref={videoRef}
+          className="absolute inset-0 w-full h-full object-cover"
+          autoPlay
+          muted
+          playsInline
+        />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+        <div className="absolute top-2 left-2 rounded bg-black/60 px-2 py-1 text-xs text-gray-200">
+          {feed.label}
+          {status === 'live' && stats && (
+            <span className="ml-2 font-mono text-gray-400">
+              {stats.fps.toFixed(0)} fps · {stats.latencyMs} ms
+            </span>
+          )}
+        </div>
+
+        {status !== 'live' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/75 text-sm text-gray-300">
+            {status === 'starting' ? 'Starting camera...' : 'Camera disconnected or in use'}
+          </div>
+        )}
+      </div>
+
+      <div className="p-2 space-y-2">
+        <div className="flex gap-2">
+          <Input
+            value={feed.label}
+            onChange={(e) => onLabelChange(e.target.value)}
+            placeholder="Camera name"
+            className="h-8 bg-gray-800 border-gray-700 text-white"
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 shrink-0 text-gray-400 hover:text-white"
+            onClick={onRemove}
+            title="Remove camera"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-gray-400 truncate">
+          {recognized.length > 0
+            ? `Recognized: ${recognized.map(face => face.name).join(', ')}`
+            : faces.length > 0
+              ? `${faces.length} ${faces.length === 1 ? 'face' : 'faces'} in view`
+              : 'No faces in view'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CameraFeed;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ActiveCameraSettings,
+  CameraDevice,
+  CameraPreference,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_PRESETS
+} from '@/services/CameraManager';
+
+interface CameraSettingsProps {
+  devices: CameraDevice[];
+  preference: CameraPreference;
+  activeSettings?: ActiveCameraSettings | null;
+  onChange: (preference: CameraPreference) => void;
+}
+
+const AUTO = 'auto';
+
+/**
+ * Camera, resolution and frame rate pickers for the live camera
+ */
+const CameraSettings: React.FC<CameraSettingsProps> = ({ devices, preference, activeSettings, onChange }) => {
+  const resolutionValue = preference.width && preference.height ? `${preference.width}x${preference.height}` : AUTO;
+  // A remembered camera that is unplugged shows as the default until it returns
+  const deviceValue = devices.some(device => device.deviceId === preference.deviceId) ? preference.deviceId! : AUTO;
+
+  const handleResolutionChange = (value: string) => {
+    const preset = RESOLUTION_PRESETS.find(p => `${p.width}x${p.height}` === value);
+    onChange({ ...preference, width: preset?.width, height: preset?.height });
+  };
+
+  return (
+    <div className="w-full space-y-2 mb-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-gray-400">Camera</Label>
+          <Select
+            value={deviceValue}
+            onValueChange={(value) => onChange({ ...preference, deviceId: value === AUTO ? undefined : value })}
+          >
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Default ({preference.facingMode === 'user' ? 'front' : 'back'})</SelectItem>
+              {devices.map(device => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-gray-400">Resolution</Label>
+          <Select value={resolutionValue} onValueChange={handleResolutionChange}>
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Camera default</SelectItem>
+              {RESOLUTION_PRESETS.map(preset => (
+                <SelectItem key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-gray-400">Frame Rate</Label>
+          <Select
+            value={preference.frameRate ? String(preference.frameRate) : AUTO}
+            onValueChange={(value) => onChange({ ...preference, frameRate: value === AUTO ? undefined : Number(value) })}
+          >
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Camera default</SelectItem>
+              {FRAME_RATE_OPTIONS.map(rate => (
+                <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {activeSettings?.width && activeSettings.height && (
+        <p className="text-xs text-gray-500">
+          Streaming at {activeSettings.width} × {activeSettings.height}
+          {activeSettings.frameRate ? `, ${Math.round(activeSettings.frameRate)} fps` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CameraSettings;
@@ -18,7 +18,7 @@ const FaceDetectionDisplay: React.FC<FaceDetectionDisplayProps> = ({ detectedFac
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {detectedFaces.map((face, index) => (
-          <Card key={index} className="overflow-hidden border border-green-500/30 animate-pulse-glow">
+          <Card key={face.id} className="overflow-hidden border border-green-500/30 animate-pulse-glow">
             <CardContent className="p-4">
               <h3 className="font-medium text-lg mb-2">Face {index + 1}</h3>
               
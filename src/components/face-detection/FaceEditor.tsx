@@ -16,6 +16,7 @@ interface FaceEditorProps {
   onAddImage?: (personId: string) => void;
   onMerge?: (faceId: string) => void;
   onViewHistory?: (faceId: string) => void;
+  showCooldown?: boolean; // Persons can override the notification cooldown
 }
 
 const FaceEditor: React.FC<FaceEditorProps> = ({ 
@@ -24,18 +25,25 @@ const FaceEditor: React.FC<FaceEditorProps> = ({
   onDelete, 
   onAddImage,
   onMerge,
-  onViewHistory
+  onViewHistory,
+  showCooldown = false
 }) => {
   const [name, setName] = React.useState(face.name || 'Unknown');
   const [notes, setNotes] = React.useState(face.notes || '');
   const [notifyOnRecognition, setNotifyOnRecognition] = React.useState(face.notifyOnRecognition || false);
+  const [cooldownSeconds, setCooldownSeconds] = React.useState(face.notificationCooldownSeconds?.toString() ?? '');
   
   const handleSave = () => {
+    const cooldown = parseInt(cooldownSeconds, 10);
     const updatedFace = {
       ...face,
       name,
       notes,
-      notifyOnRecognition
+      notifyOnRecognition,
+      // Left empty, the global cooldown applies
+      notificationCooldownSeconds: showCooldown
+        ? (cooldown >= 0 ? cooldown : null)
+        : face.notificationCooldownSeconds
     };
     onSave(updatedFace);
   };
@@ -92,6 +100,20 @@ const FaceEditor: React.FC<FaceEditorProps> = ({
           <Label htmlFor="notify">Notify when recognized</Label>
         </div>
         
+        {showCooldown && notifyOnRecognition && (
+          <div>
+            <Label htmlFor="cooldown">Notification cooldown (seconds)</Label>
+            <Input
+              id="cooldown"
+              type="number"
+              min={0}
+              value={cooldownSeconds}
+              onChange={(e) => setCooldownSeconds(e.target.value)}
+              placeholder="Use the global setting"
+            />
+          </div>
+        )}
+        
         {/* Advanced operations section */}
         <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
           <h4 className="text-sm font-medium mb-2">Advanced Operations</h4>
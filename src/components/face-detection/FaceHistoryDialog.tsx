@@ -6,7 +6,10 @@ import { formatDistanceToNow, format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { FaceDetectionService } from '@/services/FaceDetectionService';
 import { DetectedFace } from '@/services/FaceDetectionService';
-import { User } from 'lucide-react';
+import { EventClipService } from '@/services/EventClipService';
+import { Button } from '@/components/ui/button';
+import { Play, User, X } from 'lucide-react';
+import FaceImage from './FaceImage';
 
 interface FaceHistoryDialogProps {
   open: boolean;
@@ -22,11 +25,15 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
   const { toast } = useToast();
   const [history, setHistory] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
   
   useEffect(() => {
     if (open && face) {
       loadHistory();
     }
+    if (!open) {
+      setClipUrl(null);
+    }
   }, [open, face]);
   
   const loadHistory = async () => {
@@ -52,6 +59,19 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
     }
   };
 
+  const playClip = async (path: string) => {
+    try {
+      setClipUrl(await EventClipService.getUrl(path));
+    } catch (error) {
+      console.error('Error loading clip:', error);
+      toast({
+        title: "Error",
+        description: "Could not load the event clip",
+        variant: "destructive"
+      });
+    }
+  };
+
   if (!face) return null;
   
   return (
@@ -67,19 +87,17 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
         <div className="mt-4">
           {/* Face info */}
           <div className="flex items-center space-x-3 mb-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-md">
-            {face.image ? (
-              <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200">
-                <img 
-                  src={face.image} 
-                  alt={face.name || 'Face'} 
-                  className="h-full w-full object-cover"
-                />
-              </div>
-            ) : (
-              <div className="h-16 w-16 rounded-md bg-gray-200 flex items-center justify-center">
-                <User className="h-8 w-8 text-gray-400" />
-              </div>
-            )}
+            <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200 flex items-center justify-center">
+              <FaceImage 
+                image={face.image}
+                imagePath={face.imagePath}
+                thumbnail={face.thumbnail}
+                faceId={face.id}
+                alt={face.name || 'Face'} 
+                className="h-full w-full object-cover"
+                fallback={<User className="h-8 w-8 text-gray-400" />}
+              />
+            </div>
             <div>
               <p className="font-medium">{face.name || 'Unnamed Face'}</p>
               <p className="text-sm text-gray-500">
@@ -88,6 +106,27 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
               </p>
             </div>
           </div>
+
+          {clipUrl && (
+            <div className="relative mb-4">
+              <video
+                key={clipUrl}
+                src={clipUrl}
+                className="w-full rounded-md bg-black"
+                controls
+                autoPlay
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="absolute top-1 right-1 h-7 w-7 text-white hover:bg-black/40"
+                onClick={() => setClipUrl(null)}
+                title="Close clip"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
           
           {loading ? (
             <div className="text-center py-8">
@@ -104,7 +143,9 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
                 <TableRow>
                   <TableHead>Date & Time</TableHead>
                   <TableHead>Relative Time</TableHead>
+                  <TableHead>Camera</TableHead>
                   <TableHead>Image</TableHead>
+                  <TableHead>Clip</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -116,19 +157,40 @@ const FaceHistoryDialog: React.FC<FaceHistoryDialogProps> = ({
                     <TableCell>
                       {formatDistanceToNow(new Date(event.recognized_at), { addSuffix: true })}
                     </TableCell>
+                    <TableCell className="text-gray-400">
+                      {event.camera_label || '-'}
+                    </TableCell>
                     <TableCell>
-                      {event.image ? (
+                      {event.image || event.thumbnail || event.image_path ? (
                         <div className="h-10 w-10 rounded overflow-hidden bg-gray-200">
-                          <img 
-                            src={event.image} 
+                          <FaceImage 
+                            image={event.image}
+                            imagePath={event.image_path}
+                            thumbnail={event.thumbnail}
                             alt="Recognition event" 
                             className="h-full w-full object-cover"
+                            thumbnailOnly
                           />
                         </div>
                       ) : (
                         <span className="text-gray-500 text-sm">No image</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {event.clip_path ? (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => playClip(event.clip_path)}
+                          title="Play clip"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <span className="text-gray-500 text-sm">-</span>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FaceImageService } from '@/services/FaceImageService';
+import { cn } from '@/lib/utils';
+
+interface FaceImageProps {
+  image?: string | null;
+  imagePath?: string | null;
+  thumbnail?: string | null;
+  faceId?: string; // Stored face the image can be fetched from when only the row is known
+  alt: string;
+  className?: string;
+  // Shown when there is no image at all
+  fallback?: React.ReactNode;
+  // Small avatars never need more than the thumbnail
+  thumbnailOnly?: boolean;
+}
+
+/**
+ * Shows a stored face image: the thumbnail straight away, then the full
+ * image once the element scrolls into view.
+ */
+const FaceImage: React.FC<FaceImageProps> = ({
+  image,
+  imagePath,
+  thumbnail,
+  faceId,
+  alt,
+  className,
+  fallback = null,
+  thumbnailOnly = false,
+}) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  // Placeholders have no image yet, so visibility is watched on a wrapper
+  const placeholderRef = useRef<HTMLSpanElement>(null);
+  const [src, setSrc] = useState<string | undefined>(image || thumbnail || undefined);
+  const [isVisible, setIsVisible] = useState(false);
+  const [isResolved, setIsResolved] = useState(false);
+
+  const wantsFull = !image && !(thumbnailOnly && thumbnail) && !!(imagePath || faceId);
+
+  useEffect(() => {
+    setSrc(image || thumbnail || undefined);
+    setIsResolved(false);
+  }, [image, imagePath, thumbnail, faceId]);
+
+  useEffect(() => {
+    const element = imgRef.current || placeholderRef.current;
+    if (!wantsFull || !element) return;
+
+    if (!('IntersectionObserver' in window)) {
+      setIsVisible(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [wantsFull, src]);
+
+  useEffect(() => {
+    if (!wantsFull || !isVisible || isResolved) return;
+
+    let cancelled = false;
+    FaceImageService.resolve({ image, imagePath, faceId }).then(url => {
+      if (cancelled) return;
+      if (url) setSrc(url);
+      setIsResolved(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [wantsFull, isVisible, isResolved, image, imagePath, faceId]);
+
+  if (!src) {
+    // Nothing to fetch means nothing to show
+    if (!wantsFull || isResolved) return <>{fallback}</>;
+    return <span ref={placeholderRef} className={cn('flex items-center justify-center', className)}>{fallback}</span>;
+  }
+
+  return <img ref={imgRef} src={src} alt={alt} className={className} />;
+};
+
+export default FaceImage;
@@ -4,10 +4,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { DetectedFace, FaceDetectionService } from '@/services/FaceDetectionService';
+import { PersonService } from '@/services/PersonService';
+import { RecognitionSettingsService } from '@/services/RecognitionSettingsService';
 import { Card, CardContent } from '@/components/ui/card';
-import { User, Users } from 'lucide-react';
+import { User, Users, AlertTriangle } from 'lucide-react';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import FaceImage from './FaceImage';
 
 interface FaceMergeDialogProps {
   open: boolean;
@@ -55,6 +58,9 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
         (!source.personId || face.personId !== source.personId)
       );
       
+      // Most similar faces first
+      targets.sort((a, b) => getDistance(source, a) - getDistance(source, b));
+      
       setAvailableFaces(targets);
       
       // Reset selection
@@ -72,6 +78,14 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
     }
   };
 
+  const getDistance = (a: DetectedFace | null, b: DetectedFace) => {
+    if (!a?.descriptor || !b.descriptor) return Infinity;
+    return PersonService.calculateFaceDistance(a.descriptor, b.descriptor);
+  };
+  
+  const isLikelyMatch = (face: DetectedFace) => 
+    PersonService.shouldClusterWithPerson(getDistance(sourceFace, face));
+
   const handleMerge = async () => {
     if (!sourceFace || !selectedTargetId) return;
     
@@ -159,19 +173,17 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
           <div className="mb-4 p-3 border rounded-md bg-gray-50 dark:bg-gray-800">
             <h3 className="text-sm font-medium mb-2">Source Face</h3>
             <div className="flex items-center space-x-3">
-              {sourceFace.image ? (
-                <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200">
-                  <img 
-                    src={sourceFace.image} 
-                    alt={sourceFace.name || 'Source face'} 
-                    className="h-full w-full object-cover"
-                  />
-                </div>
-              ) : (
-                <div className="h-16 w-16 rounded-md bg-gray-200 flex items-center justify-center">
-                  <User className="h-8 w-8 text-gray-400" />
-                </div>
-              )}
+              <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200 flex items-center justify-center">
+                <FaceImage 
+                  image={sourceFace.image}
+                  imagePath={sourceFace.imagePath}
+                  thumbnail={sourceFace.thumbnail}
+                  faceId={sourceFace.id}
+                  alt={sourceFace.name || 'Source face'} 
+                  className="h-full w-full object-cover"
+                  fallback={<User className="h-8 w-8 text-gray-400" />}
+                />
+              </div>
               <div>
                 <p className="font-medium">{sourceFace.name || 'Unnamed Face'}</p>
                 <p className="text-sm text-gray-500">ID: {sourceFace.id.substring(0, 8)}...</p>
@@ -197,19 +209,17 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
                   <Label htmlFor={face.id} className="flex-1 cursor-pointer">
                     <Card className="border-2 transition-colors hover:border-primary">
                       <CardContent className="p-3 flex items-center space-x-3">
-                        {face.image ? (
-                          <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200">
-                            <img 
-                              src={face.image} 
-                              alt={face.name || 'Target face'} 
-                              className="h-full w-full object-cover"
-                            />
-                          </div>
-                        ) : (
-                          <div className="h-16 w-16 rounded-md bg-gray-200 flex items-center justify-center">
-                            <User className="h-8 w-8 text-gray-400" />
-                          </div>
-                        )}
+                        <div className="h-16 w-16 rounded-md overflow-hidden bg-gray-200 flex items-center justify-center">
+                          <FaceImage 
+                            image={face.image}
+                            imagePath={face.imagePath}
+                            thumbnail={face.thumbnail}
+                            faceId={face.id}
+                            alt={face.name || 'Target face'} 
+                            className="h-full w-full object-cover"
+                            fallback={<User className="h-8 w-8 text-gray-400" />}
+                          />
+                        </div>
                         <div>
                           <p className="font-medium">{face.name || 'Unnamed Face'}</p>
                           <p className="text-sm text-gray-500">ID: {face.id.substring(0, 8)}...</p>
@@ -219,6 +229,11 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
                               Part of a person group
                             </p>
                           )}
+                          {isLikelyMatch(face) && (
+                            <p className="text-xs text-green-600 mt-1">
+                              Likely same person ({Math.round((1 - getDistance(sourceFace, face)) * 100)}% similar)
+                            </p>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -229,6 +244,13 @@ const FaceMergeDialog: React.FC<FaceMergeDialogProps> = ({
           )}
         </div>
 
+        {selectedTargetId && !isLikelyMatch(availableFaces.find(face => face.id === selectedTargetId)!) && (
+          <p className="text-sm text-yellow-600 flex items-center mt-4">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            This face is further apart than your match distance ({RecognitionSettingsService.getSettings().matchDistance.toFixed(2)})
+          </p>
+        )}
+
         <div className="flex justify-end space-x-2 mt-4">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  LabelledFileResult,
+  LabelledImportProgress,
+  LabelledImportReport,
+  LabelledImportService,
+  LabelledPhoto
+} from '@/services/LabelledImportService';
+import { FileArchive, FolderOpen } from 'lucide-react';
+
+interface LabelledImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete: () => void;
+}
+
+/**
+ * Enrolls people in bulk from a folder or ZIP with one subfolder per person
+ */
+const LabelledImportDialog: React.FC<LabelledImportDialogProps> = ({ open, onOpenChange, onComplete }) => {
+  const { toast } = useToast();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<LabelledImportProgress | null>(null);
+  const [report, setReport] = useState<LabelledImportReport | null>(null);
+
+  const isImporting = progress !== null && report === null;
+
+  // React has no prop for directory pickers
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [open]);
+
+  useEffect(() => {
+    if (open) {
+      setProgress(null);
+      setReport(null);
+    }
+  }, [open]);
+
+  const runImport = async (load: () => Promise<{ photos: LabelledPhoto[]; skipped: LabelledFileResult[] }>) => {
+    setReport(null);
+    setProgress({ processed: 0, total: 0 });
+
+    try {
+      const { photos, skipped } = await load();
+      if (photos.length === 0) {
+        throw new Error('No photos inside person folders were found');
+      }
+
+      const result = await LabelledImportService.importPhotos(photos, setProgress);
+      result.files.push(...skipped);
+      setReport(result);
+      onComplete();
+    } catch (error) {
+      console.error('Error importing labelled photos:', error);
+      setProgress(null);
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleFolderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length > 0) runImport(async () => LabelledImportService.fromDirectory(files));
+  };
+
+  const handleZipChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) runImport(() => LabelledImportService.fromZip(file));
+  };
+
+  const problems = report?.files.filter(file => file.status !== 'added' || file.message) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Import People from Folders</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Choose a folder or ZIP with one subfolder per person, named after them.
+            Every photo adds that person's face; people who already exist get the new photos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input type="file" ref={folderInputRef} onChange={handleFolderChange} multiple className="hidden" />
+        <input type="file" ref={zipInputRef} onChange={handleZipChange} accept=".zip,application/zip" className="hidden" />
+
+        {!isImporting && !report && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 bg-gray-700 hover:bg-gray-600"
+              onClick={() => folderInputRef.current?.click()}
+            >
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Choose Folder
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1 bg-gray-700 hover:bg-gray-600"
+              onClick={() => zipInputRef.current?.click()}
+            >
+              <FileArchive className="h-4 w-4 mr-2" />
+              Choose ZIP
+            </Button>
+          </div>
+        )}
+
+        {isImporting && progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-400">
+              <span className="truncate mr-4">{progress.currentPath || 'Reading files...'}</span>
+              <span className="shrink-0">{progress.processed} / {progress.total}</span>
+            </div>
+            <Progress value={progress.total ? (progress.processed / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              Added {report.facesAdded} {report.facesAdded === 1 ? 'face' : 'faces'},
+              created {report.personsCreated} and updated {report.personsUpdated}{' '}
+              {report.personsCreated + report.personsUpdated === 1 ? 'person' : 'people'}.
+            </p>
+
+            {problems.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Person</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {problems.map(file => (
+                    <TableRow key={file.path}>
+                      <TableCell className="max-w-[14rem] truncate" title={file.path}>{file.path}</TableCell>
+                      <TableCell>{file.personName || '-'}</TableCell>
+                      <TableCell className={file.status === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                        {file.message || file.status}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                className="bg-gray-700 hover:bg-gray-600"
+                onClick={() => {
+                  setReport(null);
+                  setProgress(null);
+                }}
+              >
+                Import More
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LabelledImportDialog;
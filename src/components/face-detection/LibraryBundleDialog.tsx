@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BundleImportReport,
+  LibraryBundleService,
+  PersonConflictMode,
+  PersonMatchBy
+} from '@/services/LibraryBundleService';
+import { Download, Upload } from 'lucide-react';
+
+interface LibraryBundleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete: () => void;
+}
+
+const CONFLICT_LABELS: Record<PersonConflictMode, string> = {
+  merge: 'Merge faces into the existing person',
+  skip: 'Skip the person and their faces',
+  copy: 'Import as a separate person',
+};
+
+/**
+ * Downloads the whole face library as a bundle and merges bundles back in
+ */
+const LibraryBundleDialog: React.FC<LibraryBundleDialogProps> = ({ open, onOpenChange, onComplete }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [matchBy, setMatchBy] = useState<PersonMatchBy>('name');
+  const [onConflict, setOnConflict] = useState<PersonConflictMode>('merge');
+  const [task, setTask] = useState<'export' | 'import' | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+
+  useEffect(() => {
+    if (open) setReport(null);
+  }, [open]);
+
+  const updateProgress = (done: number, total: number) => setProgress({ done, total });
+
+  const handleExport = async () => {
+    setTask('export');
+    setProgress({ done: 0, total: 0 });
+
+    try {
+      const result = await LibraryBundleService.exportLibrary(updateProgress);
+
+      const url = URL.createObjectURL(result.bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `face-library-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Library exported",
+        description: `${result.persons} people, ${result.faces} faces and ${result.notifications} notifications` +
+          (result.missingImages > 0 ? `; ${result.missingImages} images could not be included` : ''),
+        variant: result.missingImages > 0 ? "destructive" : undefined,
+      });
+    } catch (error) {
+      console.error('Error exporting library:', error);
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setTask(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setTask('import');
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+
+    try {
+      setReport(await LibraryBundleService.importLibrary(file, { matchBy, onConflict }, updateProgress));
+      onComplete();
+    } catch (error) {
+      console.error('Error importing library:', error);
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setTask(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !task && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Export / Import Library</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Move people, faces and notifications between devices or accounts as a single ZIP file
+          </DialogDescription>
+        </DialogHeader>
+
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".zip,application/zip" className="hidden" />
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Export</h3>
+          <Button
+            variant="outline"
+            className="w-full bg-gray-700 hover:bg-gray-600"
+            onClick={handleExport}
+            disabled={!!task}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {task === 'export' ? 'Exporting...' : 'Download Library'}
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t border-gray-800 pt-4">
+          <h3 className="text-sm font-medium">Import</h3>
+
+          <div className="space-y-1">
+            <Label className="text-gray-400">Match existing people by</Label>
+            <Select value={matchBy} onValueChange={(value) => setMatchBy(value as PersonMatchBy)} disabled={!!task}>
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="id">ID (same account or a restored backup)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-gray-400">When a person already exists</Label>
+            <Select
+              value={onConflict}
+              onValueChange={(value) => setOnConflict(value as PersonConflictMode)}
+              disabled={!!task}
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CONFLICT_LABELS) as PersonConflictMode[]).map(mode => (
+                  <SelectItem key={mode} value={mode}>{CONFLICT_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full bg-gray-700 hover:bg-gray-600"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!task}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {task === 'import' ? 'Importing...' : 'Choose Library File'}
+          </Button>
+        </div>
+
+        {task && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>{task === 'export' ? 'Collecting images...' : 'Importing...'}</span>
+              {progress.total > 0 && <span>{progress.done} / {progress.total}</span>}
+            </div>
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-2 text-sm text-gray-300">
+            <p>
+              Imported {report.facesImported} {report.facesImported === 1 ? 'face' : 'faces'} and{' '}
+              {report.notificationsImported} {report.notificationsImported === 1 ? 'notification' : 'notifications'}.
+            </p>
+            <p>
+              People: {report.personsCreated} created, {report.personsMerged} merged, {report.personsSkipped} skipped.
+              {report.facesSkipped > 0 && ` ${report.facesSkipped} faces were skipped as duplicates or belonging to skipped people.`}
+              {report.facesInvalid > 0 && ` ${report.facesInvalid} faces were left out because they have no face data to recognize from.`}
+            </p>
+            {report.errors.length > 0 && (
+              <ul className="rounded-md border border-red-800 bg-red-900/30 p-3 text-red-200 space-y-1">
+                {report.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LibraryBundleDialog;
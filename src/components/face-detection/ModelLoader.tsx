@@ -1,86 +1,135 @@
-
-import React, { useEffect, useState } from 'react';
-// Change the import to use @vladmandic/face-api instead of face-api.js
-import * as faceapi from '@vladmandic/face-api';
+import React, { useEffect, useRef, useState } from 'react';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { DetectionPipeline, DetectorKind, ModelName, PipelineMode } from '@/services/DetectionPipeline';
+import { FaceDetectionService } from '@/services/FaceDetectionService';
+import { ModelIntegrityError, ModelMissingError, ModelProgress } from '@/services/ModelLoadingService';
+import { RecognitionSettingsService } from '@/services/RecognitionSettingsService';
 
 interface ModelLoaderProps {
   onModelsLoaded: () => void;
 }
 
+const MODEL_LABELS: Record<ModelName, string> = {
+  tinyFaceDetector: 'Tiny face detector',
+  ssdMobilenetv1: 'SSD MobileNet detector',
+  faceLandmark68Net: 'Landmarks',
+  faceRecognitionNet: 'Recognition',
+  faceExpressionNet: 'Expressions',
+  ageGenderNet: 'Age and gender',
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof ModelMissingError) {
+    return `${MODEL_LABELS[error.model]} model is missing from the server (${error.url}).`;
+  }
+  if (error instanceof ModelIntegrityError) {
+    return `${MODEL_LABELS[error.model]} model failed its integrity check (${error.file}).`;
+  }
+  return 'Failed to load face detection models. Please check your connection.';
+};
+
 const ModelLoader: React.FC<ModelLoaderProps> = ({ onModelsLoaded }) => {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
-  const [modelLoadAttempts, setModelLoadAttempts] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [progress, setProgress] = useState<Partial<Record<ModelName, ModelProgress>>>({});
+  const [mode, setMode] = useState<PipelineMode>(RecognitionSettingsService.getSettings().pipelineMode);
+  const [detector, setDetector] = useState<DetectorKind>(RecognitionSettingsService.getDetector('live'));
+  // Parents pass inline callbacks, which must not restart a load in progress
+  const onModelsLoadedRef = useRef(onModelsLoaded);
+  onModelsLoadedRef.current = onModelsLoaded;
+
+  // Switching to a richer pipeline mode or another detector loads the models it adds
+  useEffect(() => {
+    return RecognitionSettingsService.subscribe(settings => {
+      setMode(settings.pipelineMode);
+      setDetector(settings.liveDetector);
+    });
+  }, []);
 
   useEffect(() => {
+    let cancelled = false;
+
     const loadModels = async () => {
       setIsLoading(true);
+      setError(null);
+      setProgress({});
+
       try {
-        // Try different model sources based on previous attempts
-        let MODEL_URL = '';
-        
-        // Try different CDNs based on previous attempts
-        if (modelLoadAttempts === 0) {
-          MODEL_URL = '/models/'; // First try local models
-        } else if (modelLoadAttempts === 1) {
-          MODEL_URL = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api@1.7.6/model/';
-        } else {
-          MODEL_URL = 'https://raw.githubusercontent.com/vladmandic/face-api/master/model/';
-        }
-        
-        toast({
-          title: "Loading face detection models",
-          description: `Attempt ${modelLoadAttempts + 1}: Using ${MODEL_URL}`,
+        await FaceDetectionService.loadModels(mode, detector, update => {
+          if (!cancelled) setProgress(prev => ({ ...prev, [update.model]: update }));
         });
-        
-        // Using direct import for faceapi.nets to avoid TypeScript errors
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-          faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-          faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-          faceapi.nets.ageGenderNet.loadFromUri(MODEL_URL),
-          faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
-        ]);
-        
+        if (!cancelled) onModelsLoadedRef.current();
+      } catch (loadError) {
+        console.error('Error loading models:', loadError);
+        if (cancelled) return;
+
+        const description = describeError(loadError);
+        setError(description);
         toast({
-          title: "Models loaded successfully",
-          description: "You can now start the camera",
+          variant: "destructive",
+          title: "Error loading models",
+          description,
         });
-        
-        onModelsLoaded();
-      } catch (error) {
-        console.error('Error loading models:', error);
-        
-        if (modelLoadAttempts < 2) {
-          // Try another CDN
-          setModelLoadAttempts(prev => prev + 1);
-          toast({
-            title: "Trying another model source",
-            description: "Previous model source failed, attempting alternative...",
-          });
-        } else {
-          toast({
-            variant: "destructive",
-            title: "Error loading models",
-            description: "Failed to load face detection models after multiple attempts. Please check your connection.",
-          });
-        }
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     loadModels();
-  }, [modelLoadAttempts, onModelsLoaded, toast]);
 
-  if (!isLoading) return null;
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt, mode, detector, toast]);
+
+  if (!isLoading && !error) return null;
+
+  const models = DetectionPipeline.getModels(mode, detector);
 
   return (
-    <div className="absolute inset-0 flex items-center justify-center bg-black/75 z-10">
-      <Loader2 className="h-10 w-10 text-green-500 animate-spin" />
-      <p className="text-white ml-2">Loading face detection models...</p>
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/75 z-10 p-4">
+      {error ? (
+        <>
+          <p className="text-red-400 text-center max-w-sm">{error}</p>
+          <Button type="button" variant="outline" onClick={() => setAttempt(prev => prev + 1)}>
+            Retry
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center">
+            <Loader2 className="h-10 w-10 text-green-500 animate-spin" />
+            <p className="text-white ml-2">Loading face detection models...</p>
+          </div>
+          <div className="w-full max-w-xs space-y-2">
+            {models.map(model => {
+              const state = progress[model];
+              const percent = state?.status === 'loaded'
+                ? 100
+                : state?.totalBytes ? Math.round(state.loadedBytes / state.totalBytes * 100) : 0;
+
+              return (
+                <div key={model} className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-300">
+                    <span>{MODEL_LABELS[model]}</span>
+                    <span>
+                      {state?.status === 'loaded'
+                        ? state.fromCache ? 'Cached' : 'Done'
+                        : state ? `${percent}%` : 'Waiting'}
+                    </span>
+                  </div>
+                  <Progress value={percent} className="h-1.5" />
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
     </div>
   );
 };
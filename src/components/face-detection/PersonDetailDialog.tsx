@@ -4,14 +4,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Person, PersonService } from '@/services/PersonService';
-import { DetectedFace, FaceDetectionService } from '@/services/FaceDetectionService';
+import { DetectedFace } from '@/services/FaceDetectionService';
 import FaceEditor from './FaceEditor';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
 import { Trash2, Edit, ImagePlus, History } from 'lucide-react';
-import * as faceapi from '@vladmandic/face-api';
-import { generateTemporaryId } from '@/utils/idGenerator';
 import FaceMergeDialog from './FaceMergeDialog';
 import FaceHistoryDialog from './FaceHistoryDialog';
+import FaceImage from './FaceImage';
+import PhotoImportDialog from './PhotoImportDialog';
 
 interface PersonDetailDialogProps {
   personId: string | null;
@@ -32,7 +32,8 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
   const [editingFace, setEditingFace] = useState<DetectedFace | null>(null);
   const [isAddingImage, setIsAddingImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [importFiles, setImportFiles] = useState<File[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [showMergeDialog, setShowMergeDialog] = useState(false);
   const [showHistoryDialog, setShowHistoryDialog] = useState(false);
   
@@ -91,7 +92,8 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
         ...person,
         name: updatedFace.name || person.name,
         notes: updatedFace.notes,
-        notifyOnRecognition: updatedFace.notifyOnRecognition
+        notifyOnRecognition: updatedFace.notifyOnRecognition,
+        notificationCooldownSeconds: updatedFace.notificationCooldownSeconds
       };
       
       await handleUpdatePerson(updatedPerson);
@@ -143,94 +145,16 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
     }, 100);
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Faces found in the chosen photos are reviewed before they are added
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0 || !person) return;
 
-    setIsProcessing(true);
-    toast({
-      title: "Processing images",
-      description: "Analyzing faces in uploaded images..."
-    });
-
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Create image element from file
-        const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-          const image = new Image();
-          image.onload = () => resolve(image);
-          image.onerror = () => reject(new Error(`Failed to load image: ${file.name}`));
-          image.src = URL.createObjectURL(file);
-        });
-
-        // Detect face in the image
-        const detection = await faceapi.detectSingleFace(
-          img, 
-          new faceapi.TinyFaceDetectorOptions({ inputSize: 320 })
-        )
-          .withFaceLandmarks()
-          .withFaceExpressions()
-          .withAgeAndGender()
-          .withFaceDescriptor();
-
-        if (!detection) {
-          toast({
-            title: "No face detected",
-            description: `No faces found in "${file.name}"`,
-            variant: "destructive"
-          });
-          continue;
-        }
-
-        // Convert to base64 for storage
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        canvas.getContext('2d')?.drawImage(img, 0, 0);
-        const imageData = canvas.toDataURL('image/jpeg', 0.8);
-
-        // Create face object
-        const face: DetectedFace = {
-          detection: detection.detection,
-          expressions: detection.expressions,
-          age: detection.age,
-          gender: detection.gender,
-          descriptor: detection.descriptor,
-          timestamp: new Date(),
-          id: generateTemporaryId(),
-          image: imageData,
-          name: person.name,
-          personId: person.id,
-          notifyOnRecognition: person.notifyOnRecognition,
-          notes: person.notes
-        };
-
-        // Store the face
-        await FaceDetectionService.storeFaceInDatabase(face);
-      }
-
-      // Reload person data to show new images
-      await loadPersonData(person.id);
-      
-      toast({
-        title: "Images added",
-        description: `Successfully added new images to ${person.name}`
-      });
-    } catch (error) {
-      console.error('Error processing image:', error);
-      toast({
-        title: "Error",
-        description: `Failed to process images: ${(error as Error).message}`,
-        variant: "destructive"
-      });
-    } finally {
-      setIsProcessing(false);
-      setIsAddingImage(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    setImportFiles(Array.from(files));
+    setIsImportOpen(true);
+    setIsAddingImage(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
   
@@ -273,10 +197,13 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
     name: person.name,
     notes: person.notes,
     notifyOnRecognition: person.notifyOnRecognition,
+    notificationCooldownSeconds: person.notificationCooldownSeconds,
     timestamp: person.updatedAt,
     detection: null,
     personId: person.id,
-    image: person.faces && person.faces.length > 0 ? person.faces[0].image : undefined
+    image: person.faces && person.faces.length > 0 ? person.faces[0].image : undefined,
+    imagePath: person.faces && person.faces.length > 0 ? person.faces[0].imagePath : undefined,
+    thumbnail: person.faces && person.faces.length > 0 ? person.faces[0].thumbnail : undefined
   };
   
   return (
@@ -323,11 +250,11 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
                   variant="outline" 
                   size="sm"
                   onClick={() => handleAddImageClick(person.id)}
-                  disabled={isProcessing}
+                  disabled={isImportOpen}
                   className="text-white border-gray-700 hover:bg-gray-800"
                 >
                   <ImagePlus className="h-4 w-4 mr-1" />
-                  {isProcessing ? "Processing..." : "Add Images"}
+                  {isImportOpen ? "Processing..." : "Add Images"}
                 </Button>
                 
                 {/* Hidden file input */}
@@ -365,6 +292,16 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
                   <TableCell className="font-medium">Notify on Recognition</TableCell>
                   <TableCell>{person.notifyOnRecognition ? 'Yes' : 'No'}</TableCell>
                 </TableRow>
+                {person.notifyOnRecognition && (
+                  <TableRow>
+                    <TableCell className="font-medium">Notification Cooldown</TableCell>
+                    <TableCell>
+                      {person.notificationCooldownSeconds != null
+                        ? `${person.notificationCooldownSeconds} seconds`
+                        : 'Global setting'}
+                    </TableCell>
+                  </TableRow>
+                )}
                 <TableRow>
                   <TableCell className="font-medium">Created</TableCell>
                   <TableCell>{person.createdAt.toLocaleString()}</TableCell>
@@ -384,13 +321,14 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
                 {person.faces.map((face, index) => (
                   <Card key={face.id} className="overflow-hidden bg-black border-gray-800">
                     <div className="h-48 overflow-hidden bg-gray-800">
-                      {face.image && (
-                        <img 
-                          src={face.image} 
-                          alt={`Face ${index + 1}`} 
-                          className="w-full h-full object-cover"
-                        />
-                      )}
+                      <FaceImage 
+                        image={face.image}
+                        imagePath={face.imagePath}
+                        thumbnail={face.thumbnail}
+                        faceId={face.id}
+                        alt={`Face ${index + 1}`} 
+                        className="w-full h-full object-cover"
+                      />
                     </div>
                     <CardContent className="p-4">
                       <p className="text-sm text-gray-500 mb-2">
@@ -431,6 +369,7 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
               onAddImage={handleAddImageClick}
               onMerge={() => setShowMergeDialog(true)}
               onViewHistory={handleViewHistory}
+              showCooldown
             />
           </DialogContent>
         </Dialog>
@@ -453,6 +392,18 @@ const PersonDetailDialog: React.FC<PersonDetailDialogProps> = ({
         onOpenChange={setShowHistoryDialog}
         face={personAsFace}
       />
+      
+      {/* Photo import review */}
+      <PhotoImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        files={importFiles}
+        defaultPerson={person}
+        onComplete={() => {
+          if (onUpdatePerson) onUpdatePerson();
+          if (person) loadPersonData(person.id);
+        }}
+      />
     </>
   );
 };
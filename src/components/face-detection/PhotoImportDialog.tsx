@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Person, PersonService } from '@/services/PersonService';
+import { FaceQualityService } from '@/services/FaceQualityService';
+import {
+  ImportCandidate,
+  ImportDecision,
+  ImportFileResult,
+  PhotoImportService
+} from '@/services/PhotoImportService';
+import { AlertTriangle } from 'lucide-react';
+import FaceImage from './FaceImage';
+
+interface PhotoImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  files: File[];
+  // Person the photos were added from; their faces default to this person
+  defaultPerson?: Pick<Person, 'id' | 'name'> | null;
+  onComplete: () => void;
+}
+
+const fileBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Best match if there is one, else the person the import started from, else a new person
+const defaultDecision = (
+  candidate: ImportCandidate,
+  index: number,
+  facesInFile: number,
+  defaultPerson?: Pick<Person, 'id' | 'name'> | null
+): ImportDecision => {
+  const [best] = candidate.suggestions;
+  if (best) return { action: 'assign', personId: best.personId, personName: best.name };
+
+  if (defaultPerson) {
+    // In a group photo the other faces are most likely someone else
+    return facesInFile === 1
+      ? { action: 'assign', personId: defaultPerson.id, personName: defaultPerson.name }
+      : { action: 'discard' };
+  }
+
+  const name = fileBaseName(candidate.fileName);
+  return { action: 'create', name: facesInFile > 1 ? `${name} ${index + 1}` : name };
+};
+
+const decisionValue = (decision: ImportDecision) =>
+  decision.action === 'assign' ? `person:${decision.personId}` : decision.action;
+
+/**
+ * Review step for photo imports: every face found in the photos is shown with
+ * suggested matches, and is assigned, saved as a new person or discarded.
+ */
+const PhotoImportDialog: React.FC<PhotoImportDialogProps> = ({
+  open,
+  onOpenChange,
+  files,
+  defaultPerson,
+  onComplete
+}) => {
+  const { toast } = useToast();
+  const [results, setResults] = useState<ImportFileResult[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, ImportDecision>>({});
+  const [persons, setPersons] = useState<Person[]>([]);
+  const [processed, setProcessed] = useState(0);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || files.length === 0) return;
+
+    let cancelled = false;
+
+    const detect = async () => {
+      setIsDetecting(true);
+      setResults([]);
+      setDecisions({});
+      setProcessed(0);
+
+      PersonService.getAllPersons().then(all => {
+        if (!cancelled) setPersons(all);
+      });
+
+      // One photo at a time keeps memory flat for large selections
+      for (const file of files) {
+        const result = await PhotoImportService.detectFaces(file, file.name);
+        if (cancelled) return;
+
+        setResults(prev => [...prev, result]);
+        setDecisions(prev => {
+          const next = { ...prev };
+          result.candidates.forEach((candidate, index) => {
+            next[candidate.id] = defaultDecision(candidate, index, result.candidates.length, defaultPerson);
+          });
+          return next;
+        });
+        setProcessed(prev => prev + 1);
+      }
+
+      setIsDetecting(false);
+    };
+
+    detect();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, files, defaultPerson]);
+
+  const candidates = results.flatMap(result => result.candidates);
+  const toSave = candidates.filter(candidate => decisions[candidate.id]?.action !== 'discard');
+  const failedFiles = results.filter(result => result.error || result.candidates.length === 0);
+
+  const setDecision = (candidate: ImportCandidate, value: string) => {
+    let decision: ImportDecision;
+    if (value === 'discard') {
+      decision = { action: 'discard' };
+    } else if (value === 'create') {
+      decision = { action: 'create', name: fileBaseName(candidate.fileName) };
+    } else {
+      const personId = value.replace(/^person:/, '');
+      const person = persons.find(p => p.id === personId)
+        ?? candidate.suggestions.map(s => ({ id: s.personId, name: s.name })).find(p => p.id === personId);
+      decision = { action: 'assign', personId, personName: person?.name || 'Unknown' };
+    }
+    setDecisions(prev => ({ ...prev, [candidate.id]: decision }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const { saved, failed } = await PhotoImportService.saveAll(
+        toSave.map(candidate => ({ candidate, decision: decisions[candidate.id] }))
+      );
+
+      toast({
+        title: "Import complete",
+        description: `Saved ${saved} ${saved === 1 ? 'face' : 'faces'}` +
+          (failed > 0 ? `, ${failed} could not be saved` : ''),
+        variant: failed > 0 ? "destructive" : undefined,
+      });
+
+      onComplete();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving imported faces:', error);
+      toast({
+        title: "Import failed",
+        description: "There was a problem saving the imported faces.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto bg-gray-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Import Photos</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Review every face found in the photos before it is saved
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDetecting && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-400">
+              <span>Finding faces...</span>
+              <span>{processed} / {files.length} photos</span>
+            </div>
+            <Progress value={files.length ? (processed / files.length) * 100 : 0} />
+          </div>
+        )}
+
+        {failedFiles.length > 0 && (
+          <div className="rounded-md border border-yellow-700 bg-yellow-900/30 p-3 text-sm text-yellow-200 space-y-1">
+            {failedFiles.map(result => (
+              <p key={result.fileName} className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <span>
+                  "{result.fileName}": {result.error || (result.rejectedCount > 0
+                    ? `${result.rejectedCount} ${result.rejectedCount === 1 ? 'face was' : 'faces were'} too low quality`
+                    : 'no faces found')}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {candidates.map(candidate => {
+            const decision = decisions[candidate.id] ?? { action: 'discard' };
+            const suggestedIds = new Set(candidate.suggestions.map(s => s.personId));
+
+            return (
+              <div
+                key={candidate.id}
+                className={`rounded-lg border p-3 space-y-2 ${
+                  decision.action === 'discard' ? 'border-gray-800 opacity-60' : 'border-gray-700'
+                }`}
+              >
+                <div className="flex gap-3">
+                  <FaceImage
+                    image={candidate.face.image}
+                    alt={`Face from ${candidate.fileName}`}
+                    className="w-20 h-20 rounded object-cover"
+                  />
+                  <div className="min-w-0 text-xs text-gray-400 space-y-1">
+                    <p className="truncate" title={candidate.fileName}>{candidate.fileName}</p>
+                    <p className={candidate.quality.level === 'warn' ? 'text-yellow-400' : 'text-green-400'}>
+                      Quality {Math.round(candidate.quality.score * 100)}%
+                    </p>
+                    {candidate.quality.level === 'warn' && (
+                      <p className="text-yellow-400">{FaceQualityService.describe(candidate.quality)}</p>
+                    )}
+                  </div>
+                </div>
+
+                <Select value={decisionValue(decision)} onValueChange={(value) => setDecision(candidate, value)}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidate.suggestions.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Suggested</SelectLabel>
+                        {candidate.suggestions.map(suggestion => (
+                          <SelectItem key={suggestion.personId} value={`person:${suggestion.personId}`}>
+                            {suggestion.name} ({Math.round((1 - suggestion.distance) * 100)}% match)
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    <SelectGroup>
+                      <SelectLabel>Actions</SelectLabel>
+                      <SelectItem value="create">Create new person</SelectItem>
+                      <SelectItem value="discard">Discard</SelectItem>
+                    </SelectGroup>
+                    {persons.some(person => !suggestedIds.has(person.id)) && (
+                      <>
+                        <SelectSeparator />
+                        <SelectGroup>
+                          <SelectLabel>All people</SelectLabel>
+                          {persons.filter(person => !suggestedIds.has(person.id)).map(person => (
+                            <SelectItem key={person.id} value={`person:${person.id}`}>{person.name}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </>
+                    )}
+                  </SelectContent>
+                </Select>
+
+                {decision.action === 'create' && (
+                  <Input
+                    value={decision.name}
+                    onChange={(e) => setDecisions(prev => ({
+                      ...prev,
+                      [candidate.id]: { action: 'create', name: e.target.value }
+                    }))}
+                    placeholder="Name"
+                    className="bg-gray-800 border-gray-700 text-white"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {!isDetecting && candidates.length === 0 && (
+          <p className="text-center text-gray-500 py-8">No faces to import</p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button
+            variant="outline"
+            className="bg-gray-700 hover:bg-gray-600"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            className="bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+            onClick={handleSave}
+            disabled={isDetecting || isSaving || toSave.length === 0}
+          >
+            {isSaving ? "Saving..." : `Save ${toSave.length} ${toSave.length === 1 ? 'face' : 'faces'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoImportDialog;
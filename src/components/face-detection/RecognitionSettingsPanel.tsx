@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { DetectionPipeline, DETECTORS, PIPELINE_MODES } from '@/services/DetectionPipeline';
+import {
+  DEFAULT_RECOGNITION_SETTINGS,
+  INPUT_SIZE_OPTIONS,
+  RecognitionSettings,
+  RecognitionSettingsService
+} from '@/services/RecognitionSettingsService';
+
+const RecognitionSettingsPanel: React.FC = () => {
+  const { profile, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<RecognitionSettings>(RecognitionSettingsService.getSettings());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reflect settings loaded from the profile
+  useEffect(() => {
+    setSettings(RecognitionSettingsService.getSettings());
+    return RecognitionSettingsService.subscribe(setSettings);
+  }, [profile]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const normalized = RecognitionSettingsService.normalize(settings);
+      const { error } = await updateProfile({ recognition_settings: normalized });
+
+      if (error) throw error;
+
+      RecognitionSettingsService.updateSettings(normalized);
+      toast({
+        title: "Recognition settings saved",
+        description: "Camera, uploads and merging now use these settings.",
+      });
+    } catch (error) {
+      console.error('Error saving recognition settings:', error);
+      toast({
+        title: "Save failed",
+        description: "There was a problem saving your recognition settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-black border-gray-800 mt-6">
+      <CardHeader>
+        <CardTitle className="text-white">Recognition Settings</CardTitle>
+        <CardDescription className="text-gray-400">
+          Used by the live camera, image uploads and face merging
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-gray-300">Detection Pipeline</Label>
+          <Select
+            value={settings.pipelineMode}
+            onValueChange={(value) => {
+              if (DetectionPipeline.isValidMode(value)) {
+                setSettings(prev => ({ ...prev, pipelineMode: value }));
+              }
+            }}
+          >
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PIPELINE_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {PIPELINE_MODES.find(mode => mode.value === settings.pipelineMode)?.description}. Fewer stages load and run faster.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {([
+            { key: 'liveDetector', label: 'Live Camera Detector' },
+            { key: 'uploadDetector', label: 'Upload Detector' },
+          ] as const).map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label className="text-gray-300">{label}</Label>
+              <Select
+                value={settings[key]}
+                onValueChange={(value) => {
+                  if (DetectionPipeline.isValidDetector(value)) {
+                    setSettings(prev => ({ ...prev, [key]: value }));
+                  }
+                }}
+              >
+                <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DETECTORS.map(detector => (
+                    <SelectItem key={detector.value} value={detector.value}>{detector.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {DETECTORS.find(detector => detector.value === settings[key])?.description}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-gray-300">Tiny Detector Input Size</Label>
+          <Select
+            value={String(settings.inputSize)}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, inputSize: Number(value) }))}
+          >
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INPUT_SIZE_OPTIONS.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} px</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">Larger sizes find smaller faces but run slower</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label className="text-gray-300">Tiny Detector Confidence</Label>
+            <span className="text-sm text-gray-400">{Math.round(settings.scoreThreshold * 100)}%</span>
+          </div>
+          <Slider
+            min={0.1}
+            max={0.99}
+            step={0.01}
+            value={[settings.scoreThreshold]}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, scoreThreshold: value }))}
+          />
+          <p className="text-xs text-gray-500">Detections below this score are ignored</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label className="text-gray-300">SSD MobileNet Confidence</Label>
+            <span className="text-sm text-gray-400">{Math.round(settings.ssdMinConfidence * 100)}%</span>
+          </div>
+          <Slider
+            min={0.1}
+            max={0.99}
+            step={0.01}
+            value={[settings.ssdMinConfidence]}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, ssdMinConfidence: value }))}
+          />
+          <p className="text-xs text-gray-500">SSD scores run lower than the tiny detector's; 0.4-0.6 is typical</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label className="text-gray-300">Match Distance</Label>
+            <span className="text-sm text-gray-400">{settings.matchDistance.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0.2}
+            max={1}
+            step={0.01}
+            value={[settings.matchDistance]}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, matchDistance: value }))}
+          />
+          <p className="text-xs text-gray-500">Lower is stricter; 0.5-0.6 is typical</p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 bg-gray-700 hover:bg-gray-600"
+            onClick={() => setSettings(DEFAULT_RECOGNITION_SETTINGS)}
+          >
+            Reset to Defaults
+          </Button>
+          <Button
+            type="button"
+            className="flex-1 bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecognitionSettingsPanel;
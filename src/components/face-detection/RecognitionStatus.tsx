@@ -1,14 +1,31 @@
 
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { DetectedFace } from '@/services/FaceDetectionService';
-import { CheckCircle2, HelpCircle } from 'lucide-react';
+import { TrackedFace } from '@/services/FaceTracker';
+import { CheckCircle2, HelpCircle, Loader2, User } from 'lucide-react';
 
 interface RecognitionStatusProps {
-  face: DetectedFace;
+  face: DetectedFace | TrackedFace;
+  onViewPerson?: (personId: string) => void;
 }
 
-const RecognitionStatus: React.FC<RecognitionStatusProps> = ({ face }) => {
+const RecognitionStatus: React.FC<RecognitionStatusProps> = ({ face, onViewPerson }) => {
+  if ('recognitionState' in face && face.recognitionState === 'pending') {
+    return (
+      <Card className="bg-gray-50 border-gray-200">
+        <CardContent className="p-3 flex items-center">
+          <Loader2 className="w-5 h-5 text-gray-500 mr-2 animate-spin" />
+          <div>
+            <p className="text-sm font-medium text-gray-700">Identifying...</p>
+            <p className="text-xs text-gray-600">Hold still while the face is checked over several frames</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+  
   if (!face.isRecognized) {
     return (
       <Card className="bg-yellow-50 border-yellow-200">
@@ -27,13 +44,24 @@ const RecognitionStatus: React.FC<RecognitionStatusProps> = ({ face }) => {
     <Card className="bg-green-50 border-green-200">
       <CardContent className="p-3 flex items-center">
         <CheckCircle2 className="w-5 h-5 text-green-500 mr-2" />
-        <div>
+        <div className="flex-1">
           <p className="text-sm font-medium text-green-700">Recognized: {face.name}</p>
           <p className="text-xs text-green-600">
             {face.similarity ? `Confidence: ${Math.round(face.similarity * 100)}%` : ''}
             {face.notes ? ` • ${face.notes}` : ''}
           </p>
         </div>
+        {face.personId && onViewPerson && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-green-700 hover:bg-green-100"
+            onClick={() => onViewPerson(face.personId!)}
+          >
+            <User className="h-4 w-4 mr-1" />
+            View
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -3,16 +3,22 @@ import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Bell, BellRing, Check } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Bell, BellRing, Check, UserPlus, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { NotificationsService, FaceRecognitionNotification } from '@/services/NotificationsService';
+import { UnknownAlertService } from '@/services/UnknownAlertService';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import FaceImage from '@/components/face-detection/FaceImage';
 
 const FaceRecognitionNotifications: React.FC = () => {
   const [notifications, setNotifications] = useState<FaceRecognitionNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(false);
   const [showNotifications, setShowNotifications] = useState<boolean>(false);
+  // Unknown-face alert being enrolled, with the name typed so far
+  const [enrolling, setEnrolling] = useState<{ id: string; name: string } | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Fetch unread notifications on component mount
@@ -31,7 +37,9 @@ const FaceRecognitionNotifications: React.FC = () => {
       // This prevents duplicate toasts when the user is already looking at notifications
       if (!showNotifications) {
         toast({
-          title: `🔔 ${notification.face_name} recognized!`,
+          title: notification.kind === 'unknown_alert'
+            ? '🔔 Unknown person on camera'
+            : `🔔 ${notification.face_name} recognized!`,
           description: notification.notes || 'Person detected by camera',
         });
         
@@ -82,6 +90,54 @@ const FaceRecognitionNotifications: React.FC = () => {
     }
   };
 
+  // Update an alert in place once it is enrolled or dismissed
+  const applyResolution = (notification: FaceRecognitionNotification, changes: Partial<FaceRecognitionNotification>) => {
+    setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, ...changes, is_read: true } : n));
+    if (!notification.is_read) {
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    }
+  };
+
+  const enrollUnknown = async (notification: FaceRecognitionNotification, name: string) => {
+    setResolvingId(notification.id);
+    try {
+      await UnknownAlertService.enroll(notification, name);
+
+      applyResolution(notification, { resolution: 'enrolled', face_name: name });
+      setEnrolling(null);
+      toast({
+        title: 'Person enrolled',
+        description: `${name} will be recognized from now on`,
+      });
+    } catch (error) {
+      console.error('Error enrolling unknown face:', error);
+      toast({
+        title: 'Enrollment failed',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const dismissUnknown = async (notification: FaceRecognitionNotification) => {
+    setResolvingId(notification.id);
+    try {
+      await UnknownAlertService.dismiss(notification);
+      applyResolution(notification, { resolution: 'dismissed' });
+    } catch (error) {
+      console.error('Error dismissing unknown face:', error);
+      toast({
+        title: 'Error dismissing alert',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
   const markAllAsRead = async () => {
     try {
       const promises = notifications
@@ -128,11 +184,14 @@ const FaceRecognitionNotifications: React.FC = () => {
     if (Notification.permission === 'granted') {
       const notificationOptions: NotificationOptions = {
         body: notification.notes || `Person detected at ${new Date().toLocaleTimeString()}`,
-        icon: notification.image || '/favicon.ico',
+        icon: notification.thumbnail || notification.image || '/favicon.ico',
         tag: notification.id // Prevents duplicate notifications
       };
       
-      new Notification(`${notification.face_name} recognized!`, notificationOptions);
+      new Notification(
+        notification.kind === 'unknown_alert' ? 'Unknown person on camera' : `${notification.face_name} recognized!`,
+        notificationOptions
+      );
     }
     // Don't request permissions here - we'll do that in the profile settings
   };
@@ -202,27 +261,92 @@ const FaceRecognitionNotifications: React.FC = () => {
                           {!notification.is_read && (
                             <Badge variant="outline" className="text-xs">New</Badge>
                           )}
+                          {notification.resolution && (
+                            <Badge variant="secondary" className="text-xs capitalize">{notification.resolution}</Badge>
+                          )}
                         </div>
                         <p className="text-xs text-muted-foreground">
                           {formatTime(notification.recognized_at)}
+                          {notification.camera_label && ` · ${notification.camera_label}`}
                         </p>
                         {notification.notes && (
                           <p className="text-sm mt-1">{notification.notes}</p>
                         )}
                       </div>
                       
-                      {notification.image && (
+                      {(notification.image || notification.thumbnail || notification.image_path) && (
                         <div className="h-12 w-12 rounded overflow-hidden flex-shrink-0">
-                          <img 
-                            src={notification.image} 
+                          <FaceImage 
+                            image={notification.image}
+                            imagePath={notification.image_path}
+                            thumbnail={notification.thumbnail}
                             alt={notification.face_name} 
                             className="h-full w-full object-cover"
+                            thumbnailOnly
                           />
                         </div>
                       )}
                     </div>
                     
-                    {!notification.is_read && (
+                    {notification.kind === 'unknown_alert' && !notification.resolution && (
+                      enrolling?.id === notification.id ? (
+                        <form
+                          className="flex gap-2 mt-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            if (enrolling.name.trim()) enrollUnknown(notification, enrolling.name.trim());
+                          }}
+                        >
+                          <Input
+                            autoFocus
+                            value={enrolling.name}
+                            onChange={(e) => setEnrolling({ id: notification.id, name: e.target.value })}
+                            placeholder="Name"
+                            className="h-8"
+                          />
+                          <Button
+                            type="submit"
+                            size="sm"
+                            disabled={!enrolling.name.trim() || resolvingId === notification.id}
+                          >
+                            {resolvingId === notification.id ? 'Saving...' : 'Save'}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => setEnrolling(null)}
+                            title="Cancel"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      ) : (
+                        <div className="flex gap-2 mt-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => setEnrolling({ id: notification.id, name: '' })}
+                            disabled={resolvingId !== null}
+                          >
+                            <UserPlus className="h-3 w-3 mr-1" /> Enroll
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => dismissUnknown(notification)}
+                            disabled={resolvingId !== null}
+                          >
+                            <X className="h-3 w-3 mr-1" /> Dismiss
+                          </Button>
+                        </div>
+                      )
+                    )}
+                    
+                    {!notification.is_read && notification.kind !== 'unknown_alert' && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { CameraDevice, CameraManager } from '@/services/CameraManager';
+import { Person, PersonService } from '@/services/PersonService';
+import {
+  NotificationRule,
+  NotificationRulesService,
+  RULE_SUBJECTS,
+  RuleSubject,
+  WEEKDAYS
+} from '@/services/NotificationRulesService';
+import { Plus, Trash2 } from 'lucide-react';
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Editor for the user's notification rules. While no rules exist, each
+ * person's "notify when recognized" flag decides as before.
+ */
+const NotificationRulesPanel: React.FC = () => {
+  const { profile, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<NotificationRule[]>(NotificationRulesService.getRules());
+  const [persons, setPersons] = useState<Person[]>([]);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reflect rules loaded from the profile
+  useEffect(() => {
+    setRules(NotificationRulesService.getRules());
+    return NotificationRulesService.subscribe(setRules);
+  }, [profile]);
+
+  useEffect(() => {
+    PersonService.getAllPersons()
+      .then(setPersons)
+      .catch(error => console.error('Error loading persons for notification rules:', error));
+    CameraManager.listDevices()
+      .then(setCameras)
+      .catch(error => console.error('Error listing cameras for notification rules:', error));
+  }, []);
+
+  const updateRule = (id: string, changes: Partial<NotificationRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const normalized = rules.map(rule => NotificationRulesService.normalize(rule));
+      const { error } = await updateProfile({ notification_rules: normalized });
+
+      if (error) throw error;
+
+      NotificationRulesService.updateRules(normalized);
+      toast({
+        title: "Notification rules saved",
+        description: normalized.length > 0
+          ? "Recognitions now notify only when a rule matches."
+          : "Each person's own notification setting applies again.",
+      });
+    } catch (error) {
+      console.error('Error saving notification rules:', error);
+      toast({
+        title: "Save failed",
+        description: "There was a problem saving your notification rules.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-black border-gray-800 mt-6">
+      <CardHeader>
+        <CardTitle className="text-white">Notification Rules</CardTitle>
+        <CardDescription className="text-gray-400">
+          {rules.length === 0
+            ? 'No rules yet, so people marked "notify when recognized" and unknown faces notify at any time'
+            : 'A recognition notifies when any enabled rule matches it'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map(rule => (
+          <div key={rule.id} className="space-y-4 rounded-md border border-gray-700 bg-gray-900 p-4">
+            <div className="flex items-center gap-2">
+              <Input
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                placeholder="Rule name"
+                className="bg-gray-800 border-gray-700 text-white"
+              />
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                title={rule.enabled ? 'Enabled' : 'Disabled'}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="shrink-0 text-gray-400 hover:text-red-400"
+                onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))}
+                title="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">Who</Label>
+              <Select
+                value={rule.subject}
+                onValueChange={(value) => updateRule(rule.id, { subject: value as RuleSubject })}
+              >
+                <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_SUBJECTS.map(subject => (
+                    <SelectItem key={subject.value} value={subject.value}>{subject.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rule.subject === 'persons' && (
+                persons.length === 0 ? (
+                  <p className="text-xs text-gray-500">No people saved yet</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-1">
+                    {persons.map(person => (
+                      <label key={person.id} className="flex items-center gap-2 text-sm text-white">
+                        <input
+                          type="checkbox"
+                          checked={rule.personIds.includes(person.id)}
+                          onChange={() => updateRule(rule.id, { personIds: toggle(rule.personIds, person.id) })}
+                          className="rounded border-gray-400"
+                        />
+                        {person.name}
+                      </label>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-gray-300">From</Label>
+                <Input
+                  type="time"
+                  value={rule.startTime ?? ''}
+                  onChange={(e) => updateRule(rule.id, { startTime: e.target.value || null })}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Until</Label>
+                <Input
+                  type="time"
+                  value={rule.endTime ?? ''}
+                  onChange={(e) => updateRule(rule.id, { endTime: e.target.value || null })}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">Leave empty for all day; a window like 22:00-06:00 runs overnight</p>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">Days</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((day, index) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={rule.weekdays.includes(index) ? 'default' : 'outline'}
+                    className={rule.weekdays.includes(index) ? '' : 'bg-gray-800 border-gray-700 text-gray-300'}
+                    onClick={() => updateRule(rule.id, { weekdays: toggle(rule.weekdays, index) })}
+                  >
+                    {day}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">None selected means every day</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">Cameras</Label>
+              {cameras.length === 0 ? (
+                <p className="text-xs text-gray-500">Any camera. Allow camera access to pick specific ones.</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 gap-1">
+                    {cameras.map(camera => (
+                      <label key={camera.deviceId} className="flex items-center gap-2 text-sm text-white">
+                        <input
+                          type="checkbox"
+                          checked={rule.cameraIds.includes(camera.deviceId)}
+                          onChange={() => updateRule(rule.id, { cameraIds: toggle(rule.cameraIds, camera.deviceId) })}
+                          className="rounded border-gray-400"
+                        />
+                        {camera.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">None selected means any camera</p>
+                </>
+              )}
+            </div>
+
+            {rule.subject !== 'any_unknown' && (
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-gray-300">Minimum Confidence</Label>
+                  <span className="text-sm text-gray-400">{Math.round(rule.minConfidence * 100)}%</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={[rule.minConfidence]}
+                  onValueChange={([value]) => updateRule(rule.id, { minConfidence: value })}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 bg-gray-700 hover:bg-gray-600"
+            onClick={() => setRules(prev => [...prev, NotificationRulesService.createRule()])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+          <Button
+            type="button"
+            className="flex-1 bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationRulesPanel;
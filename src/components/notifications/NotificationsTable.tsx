@@ -5,6 +5,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Button } from '@/components/ui/button';
 import { Bell, User } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import FaceImage from '@/components/face-detection/FaceImage';
 
 interface NotificationsTableProps {
   notifications: FaceRecognitionNotification[];
@@ -42,12 +43,15 @@ const NotificationsTable: React.FC<NotificationsTableProps> = ({
             <TableRow key={notification.id} className={notification.is_read ? 'opacity-60' : ''}>
               <TableCell className="font-medium">
                 <div className="flex items-center space-x-3">
-                  {notification.image ? (
+                  {notification.image || notification.thumbnail || notification.image_path ? (
                     <div className="h-10 w-10 rounded-full overflow-hidden bg-gray-200">
-                      <img 
-                        src={notification.image} 
+                      <FaceImage 
+                        image={notification.image}
+                        imagePath={notification.image_path}
+                        thumbnail={notification.thumbnail}
                         alt={notification.face_name} 
                         className="h-full w-full object-cover"
+                        thumbnailOnly
                       />
                     </div>
                   ) : (
@@ -60,6 +64,9 @@ const NotificationsTable: React.FC<NotificationsTableProps> = ({
               </TableCell>
               <TableCell>
                 {formatDistanceToNow(new Date(notification.recognized_at), { addSuffix: true })}
+                {notification.camera_label && (
+                  <span className="block text-xs text-gray-500">{notification.camera_label}</span>
+                )}
               </TableCell>
               <TableCell>
                 {notification.is_read ? (
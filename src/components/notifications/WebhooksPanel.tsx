@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { WebhookDeliveryRow } from '@/services/storage';
+import { LOCAL_WEBHOOK_RECEIVER_URL, WebhookEndpoint, WebhookService } from '@/services/WebhookService';
+import { Plus, RefreshCw, Send, Trash2 } from 'lucide-react';
+
+const STATUS_STYLES: Record<string, string> = {
+  delivered: 'bg-green-700',
+  pending: 'bg-yellow-700',
+  failed: 'bg-red-700',
+};
+
+/**
+ * Webhook endpoints that receive recognition events, with a test button per
+ * endpoint and a log of recent deliveries
+ */
+const WebhooksPanel: React.FC = () => {
+  const { profile, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>(WebhookService.getEndpoints());
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryRow[]>([]);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reflect endpoints loaded from the profile
+  useEffect(() => {
+    setEndpoints(WebhookService.getEndpoints());
+    return WebhookService.subscribe(setEndpoints);
+  }, [profile]);
+
+  const loadDeliveries = useCallback(async () => {
+    setDeliveries(await WebhookService.getDeliveries());
+  }, []);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const updateEndpoint = (id: string, changes: Partial<WebhookEndpoint>) => {
+    setEndpoints(prev => prev.map(endpoint => endpoint.id === id ? { ...endpoint, ...changes } : endpoint));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const normalized = endpoints.map(endpoint => WebhookService.normalize(endpoint));
+      const { error } = await updateProfile({ webhooks: normalized });
+
+      if (error) throw error;
+
+      WebhookService.updateEndpoints(normalized);
+      toast({
+        title: "Webhooks saved",
+        description: `${normalized.filter(endpoint => endpoint.enabled && endpoint.url).length} active endpoint(s)`,
+      });
+    } catch (error) {
+      console.error('Error saving webhooks:', error);
+      toast({
+        title: "Save failed",
+        description: "There was a problem saving your webhooks.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTestingId(endpoint.id);
+    // Show the pending row while retries run
+    const refresh = setInterval(loadDeliveries, 1000);
+    try {
+      const delivery = await WebhookService.sendTestEvent(WebhookService.normalize(endpoint));
+      toast(delivery.status === 'delivered'
+        ? { title: "Test event delivered", description: `${endpoint.name} answered HTTP ${delivery.response_status}` }
+        : {
+            title: "Test event failed",
+            description: `${delivery.error} after ${delivery.attempts} attempt(s)`,
+            variant: "destructive",
+          });
+    } catch (error) {
+      console.error('Error sending test webhook:', error);
+      toast({
+        title: "Test event failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      clearInterval(refresh);
+      setTestingId(null);
+      loadDeliveries();
+    }
+  };
+
+  const endpointName = (delivery: WebhookDeliveryRow) =>
+    endpoints.find(endpoint => endpoint.id === delivery.endpoint_id)?.name ?? delivery.endpoint_url;
+
+  return (
+    <Card className="bg-black border-gray-800 mt-6">
+      <CardHeader>
+        <CardTitle className="text-white">Webhooks</CardTitle>
+        <CardDescription className="text-gray-400">
+          Each notified recognition is POSTed as signed JSON to every enabled endpoint.
+          Requests are sent from this browser, so the receiver must allow cross-origin (CORS)
+          POSTs from this app's origin with the Content-Type and X-Webhook-* headers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {endpoints.map(endpoint => (
+          <div key={endpoint.id} className="space-y-3 rounded-md border border-gray-700 bg-gray-900 p-4">
+            <div className="flex items-center gap-2">
+              <Input
+                value={endpoint.name}
+                onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+                placeholder="Name"
+                className="bg-gray-800 border-gray-700 text-white"
+              />
+              <Switch
+                checked={endpoint.enabled}
+                onCheckedChange={(enabled) => updateEndpoint(endpoint.id, { enabled })}
+                title={endpoint.enabled ? 'Enabled' : 'Disabled'}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="shrink-0 text-gray-400 hover:text-red-400"
+                onClick={() => setEndpoints(prev => prev.filter(e => e.id !== endpoint.id))}
+                title="Delete webhook"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">URL</Label>
+              <Input
+                value={endpoint.url}
+                onChange={(e) => updateEndpoint(endpoint.id, { url: e.target.value })}
+                placeholder="https://example.com/hooks/faces"
+                className="bg-gray-800 border-gray-700 text-white"
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-xs text-gray-400"
+                onClick={() => updateEndpoint(endpoint.id, {
+                  url: `${LOCAL_WEBHOOK_RECEIVER_URL}?secret=${encodeURIComponent(endpoint.secret)}`
+                })}
+              >
+                Use the local test receiver
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-300">Signing Secret</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={endpoint.secret}
+                  readOnly
+                  className="bg-gray-800 border-gray-700 font-mono text-xs text-gray-300"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  className="shrink-0 bg-gray-700 hover:bg-gray-600"
+                  onClick={() => updateEndpoint(endpoint.id, { secret: WebhookService.generateSecret() })}
+                  title="Generate a new secret"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full bg-gray-700 hover:bg-gray-600"
+              onClick={() => handleTest(endpoint)}
+              disabled={!endpoint.url || testingId !== null}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              {testingId === endpoint.id ? "Sending..." : "Send Test Event"}
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1 bg-gray-700 hover:bg-gray-600"
+            onClick={() => setEndpoints(prev => [...prev, WebhookService.createEndpoint()])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Webhook
+          </Button>
+          <Button
+            type="button"
+            className="flex-1 bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save Webhooks"}
+          </Button>
+        </div>
+
+        <div className="pt-2">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-300">Recent Deliveries</h4>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="text-gray-400 hover:text-white"
+              onClick={loadDeliveries}
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">No deliveries yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-gray-400 whitespace-nowrap">
+                      {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-gray-300 max-w-[10rem] truncate">{endpointName(delivery)}</TableCell>
+                    <TableCell className="text-gray-300">{delivery.event_type}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-300">{delivery.attempts}</TableCell>
+                    <TableCell className="text-gray-400 max-w-[12rem] truncate" title={delivery.error ?? undefined}>
+                      {delivery.error ?? delivery.response_status ?? '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhooksPanel;
@@ -2,8 +2,32 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { isLocalStorageBackend, LOCAL_USER_ID } from '@/services/storage';
+import { RecognitionSettingsService } from '@/services/RecognitionSettingsService';
+import { NotificationRulesService } from '@/services/NotificationRulesService';
+import { WebhookService } from '@/services/WebhookService';
+import { DescriptorIndex } from '@/services/DescriptorIndex';
 import { useToast } from '@/hooks/use-toast';
 
+const LOCAL_PROFILE_KEY = 'localProfile';
+
+// The offline backend has no accounts, so the device acts as a single signed-in user
+const LOCAL_USER = {
+  id: LOCAL_USER_ID,
+  email: 'local@device',
+  aud: 'authenticated',
+  app_metadata: {},
+  user_metadata: {},
+  created_at: new Date(0).toISOString(),
+} as User;
+
+const getLocalProfile = () => {
+  const savedProfile = localStorage.getItem(LOCAL_PROFILE_KEY);
+  return savedProfile
+    ? JSON.parse(savedProfile)
+    : { id: LOCAL_USER_ID, full_name: 'Local User', avatar_url: null };
+};
+
 type AuthContextType = {
   session: Session | null;
   user: User | null;
@@ -11,6 +35,7 @@ type AuthContextType = {
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, userData: any) => Promise<{ error: any, data: any }>;
   signOut: () => Promise<void>;
+  updateProfile: (changes: Record<string, unknown>) => Promise<{ error: unknown }>;
   loading: boolean;
 };
 
@@ -24,6 +49,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const { toast } = useToast();
 
   useEffect(() => {
+    if (isLocalStorageBackend()) {
+      setUser(LOCAL_USER);
+      setProfile(getLocalProfile());
+      setLoading(false);
+      return;
+    }
+
     // First set up the auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, currentSession) => {
@@ -58,6 +90,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // The recognition index holds one account's faces; drop it when the account changes
+  useEffect(() => {
+    DescriptorIndex.clear();
+  }, [user?.id]);
+
+  // Detection and matching everywhere follow the signed-in user's saved settings
+  useEffect(() => {
+    RecognitionSettingsService.applyProfileSettings(profile?.recognition_settings);
+    NotificationRulesService.applyProfileRules(profile?.notification_rules);
+    WebhookService.applyProfileEndpoints(profile?.webhooks);
+  }, [profile]);
+
   const fetchProfile = async (userId: string) => {
     try {
       const { data, error } = await supabase
@@ -77,7 +121,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const updateProfile = async (changes: Record<string, unknown>) => {
+    if (!user) return { error: new Error('Not signed in') };
+
+    if (isLocalStorageBackend()) {
+      const updatedProfile = { ...getLocalProfile(), ...changes };
+      localStorage.setItem(LOCAL_PROFILE_KEY, JSON.stringify(updatedProfile));
+      setProfile(updatedProfile);
+      return { error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', user.id)
+        .select()
+        .single();
+
+      if (!error) setProfile(data);
+      return { error };
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      return { error };
+    }
+  };
+
   const signIn = async (email: string, password: string) => {
+    if (isLocalStorageBackend()) return { error: null };
+
     try {
       const { error } = await supabase.auth.signInWithPassword({ email, password });
       return { error };
@@ -88,6 +160,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const signUp = async (email: string, password: string, userData: any) => {
+    if (isLocalStorageBackend()) return { error: null, data: { user: LOCAL_USER } };
+
     try {
       const { data, error } = await supabase.auth.signUp({
         email,
@@ -108,6 +182,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const signOut = async () => {
+    if (isLocalStorageBackend()) return;
+
     try {
       await supabase.auth.signOut();
       toast({
@@ -133,6 +209,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         signIn,
         signUp,
         signOut,
+        updateProfile,
         loading,
       }}
     >
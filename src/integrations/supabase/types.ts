@@ -15,6 +15,7 @@ export type Database = {
           id: string
           name: string
           notes: string | null
+          notification_cooldown_seconds: number | null
           notify_on_recognition: boolean | null
           updated_at: string
           user_id: string | null
@@ -24,6 +25,7 @@ export type Database = {
           id?: string
           name?: string
           notes?: string | null
+          notification_cooldown_seconds?: number | null
           notify_on_recognition?: boolean | null
           updated_at?: string
           user_id?: string | null
@@ -33,6 +35,7 @@ export type Database = {
           id?: string
           name?: string
           notes?: string | null
+          notification_cooldown_seconds?: number | null
           notify_on_recognition?: boolean | null
           updated_at?: string
           user_id?: string | null
@@ -45,53 +48,86 @@ export type Database = {
           created_at: string
           full_name: string | null
           id: string
+          notification_rules: Json | null
+          recognition_settings: Json | null
           updated_at: string
+          webhooks: Json | null
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
           full_name?: string | null
           id: string
+          notification_rules?: Json | null
+          recognition_settings?: Json | null
           updated_at?: string
+          webhooks?: Json | null
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
           full_name?: string | null
           id?: string
+          notification_rules?: Json | null
+          recognition_settings?: Json | null
           updated_at?: string
+          webhooks?: Json | null
         }
         Relationships: []
       }
       recognition_notifications: {
         Row: {
+          camera_id: string | null
+          camera_label: string | null
+          clip_path: string | null
+          descriptor: number[] | null
           face_id: string | null
           face_name: string
           id: string
           image: string | null
+          image_path: string | null
           is_read: boolean
+          kind: string
           notes: string | null
           recognized_at: string
+          resolution: string | null
+          thumbnail: string | null
           user_id: string | null
         }
         Insert: {
+          camera_id?: string | null
+          camera_label?: string | null
+          clip_path?: string | null
+          descriptor?: number[] | null
           face_id?: string | null
           face_name: string
           id?: string
           image?: string | null
+          image_path?: string | null
           is_read?: boolean
+          kind?: string
           notes?: string | null
           recognized_at?: string
+          resolution?: string | null
+          thumbnail?: string | null
           user_id?: string | null
         }
         Update: {
+          camera_id?: string | null
+          camera_label?: string | null
+          clip_path?: string | null
+          descriptor?: number[] | null
           face_id?: string | null
           face_name?: string
           id?: string
           image?: string | null
+          image_path?: string | null
           is_read?: boolean
+          kind?: string
           notes?: string | null
           recognized_at?: string
+          resolution?: string | null
+          thumbnail?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -111,12 +147,15 @@ export type Database = {
           descriptor: number[]
           gender: string | null
           id: string
-          image: string
+          image: string | null
+          image_path: string | null
           last_seen: string | null
           name: string | null
           notes: string | null
           notify_on_recognition: boolean | null
           person_id: string | null
+          quality_score: number | null
+          thumbnail: string | null
           updated_at: string | null
           user_id: string | null
         }
@@ -126,12 +165,15 @@ export type Database = {
           descriptor: number[]
           gender?: string | null
           id?: string
-          image: string
+          image?: string | null
+          image_path?: string | null
           last_seen?: string | null
           name?: string | null
           notes?: string | null
           notify_on_recognition?: boolean | null
           person_id?: string | null
+          quality_score?: number | null
+          thumbnail?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
@@ -141,12 +183,15 @@ export type Database = {
           descriptor?: number[]
           gender?: string | null
           id?: string
-          image?: string
+          image?: string | null
+          image_path?: string | null
           last_seen?: string | null
           name?: string | null
           notes?: string | null
           notify_on_recognition?: boolean | null
           person_id?: string | null
+          quality_score?: number | null
+          thumbnail?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
@@ -160,6 +205,51 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          endpoint_url: string
+          error: string | null
+          event_type: string
+          id: string
+          payload: Json
+          response_status: number | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          endpoint_url: string
+          error?: string | null
+          event_type: string
+          id?: string
+          payload: Json
+          response_status?: number | null
+          status?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          endpoint_url?: string
+          error?: string | null
+          event_type?: string
+          id?: string
+          payload?: Json
+          response_status?: number | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -7,12 +7,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft } from 'lucide-react';
+import RecognitionSettingsPanel from '@/components/face-detection/RecognitionSettingsPanel';
+import NotificationRulesPanel from '@/components/notifications/NotificationRulesPanel';
+import WebhooksPanel from '@/components/notifications/WebhooksPanel';
 
 const Profile: React.FC = () => {
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, signOut, updateProfile } = useAuth();
   const [fullName, setFullName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
@@ -41,10 +43,7 @@ const Profile: React.FC = () => {
     setIsLoading(true);
     
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ full_name: fullName })
-        .eq('id', user.id);
+      const { error } = await updateProfile({ full_name: fullName });
         
       if (error) throw error;
       
@@ -162,6 +161,12 @@ const Profile: React.FC = () => {
             </Button>
           </CardFooter>
         </Card>
+        
+        <RecognitionSettingsPanel />
+        
+        <NotificationRulesPanel />
+        
+        <WebhooksPanel />
       </div>
     </div>
   );
@@ -2,10 +2,13 @@
 import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import FaceDetectionCamera from '@/components/FaceDetectionCamera';
+import VideoFileAnalyzer from '@/components/VideoFileAnalyzer';
+import MultiCameraDashboard from '@/components/MultiCameraDashboard';
 import FaceRecognitionNotifications from '@/components/notifications/FaceRecognitionNotifications';
 import UserProfile from '@/components/UserProfile';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const Index = () => {
   const { user, loading } = useAuth();
@@ -69,12 +72,32 @@ const Index = () => {
           </div>
         </div>
         <p className="text-gray-300 text-center max-w-xl mx-auto">
-          This app uses your device's camera to detect and analyze faces in real-time.
+          This app uses your device's camera to detect and analyze faces in real-time, or scans a video file for who appears when.
         </p>
       </header>
 
       <main className="max-w-4xl mx-auto">
-        <FaceDetectionCamera />
+        <Tabs defaultValue="camera">
+          <TabsList className="grid w-full max-w-md mx-auto grid-cols-3 mb-4">
+            <TabsTrigger value="camera">Live Camera</TabsTrigger>
+            <TabsTrigger value="multi">Multi-Camera</TabsTrigger>
+            <TabsTrigger value="video">Video File</TabsTrigger>
+          </TabsList>
+          
+          {/* forceMount keeps the camera session alive while the other tab is open */}
+          <TabsContent value="camera" forceMount className="data-[state=inactive]:hidden">
+            <FaceDetectionCamera />
+          </TabsContent>
+          
+          {/* Cameras only run while this tab is open */}
+          <TabsContent value="multi">
+            <MultiCameraDashboard />
+          </TabsContent>
+          
+          <TabsContent value="video">
+            <VideoFileAnalyzer />
+          </TabsContent>
+        </Tabs>
       </main>
       
       <footer className="mt-16 text-center text-gray-400 text-sm">
@@ -4,18 +4,19 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Upload, User, Users, Bell, Edit, History } from 'lucide-react';
-// Change import from face-api.js to @vladmandic/face-api
-import * as faceapi from '@vladmandic/face-api';
+import { ArrowLeft, Upload, User, Users, Bell, Edit, History, FolderUp, Archive } from 'lucide-react';
 import { DetectedFace, FaceDetectionService } from '@/services/FaceDetectionService';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import FaceEditor from '@/components/face-detection/FaceEditor';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { generateTemporaryId } from '@/utils/idGenerator';
 import ModelLoader from '@/components/face-detection/ModelLoader';
 import PersonDetailDialog from '@/components/face-detection/PersonDetailDialog';
 import FaceMergeDialog from '@/components/face-detection/FaceMergeDialog';
 import FaceHistoryDialog from '@/components/face-detection/FaceHistoryDialog';
+import FaceImage from '@/components/face-detection/FaceImage';
+import PhotoImportDialog from '@/components/face-detection/PhotoImportDialog';
+import LabelledImportDialog from '@/components/face-detection/LabelledImportDialog';
+import LibraryBundleDialog from '@/components/face-detection/LibraryBundleDialog';
 import NotificationsTable from '@/components/notifications/NotificationsTable';
 import { NotificationsService, FaceRecognitionNotification } from '@/services/NotificationsService';
 
@@ -29,7 +30,10 @@ const SavedFaces: React.FC = () => {
   const [activeTab, setActiveTab] = useState('database');
   const [editingFace, setEditingFace] = useState<DetectedFace | null>(null);
   const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
+  const [importFiles, setImportFiles] = useState<File[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFolderImportOpen, setIsFolderImportOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [modelsLoaded, setModelsLoaded] = useState(false);
   const [isPersonDetailOpen, setIsPersonDetailOpen] = useState(false);
@@ -179,7 +183,8 @@ const SavedFaces: React.FC = () => {
   };
 
   // --- Main face upload handler ---
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Every face in the chosen photos goes to the review dialog before saving
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!modelsLoaded) {
       toast({
         title: "Models still loading",
@@ -192,120 +197,11 @@ const SavedFaces: React.FC = () => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    setIsUploading(true);
+    setImportFiles(Array.from(files));
+    setIsImportOpen(true);
 
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-
-        // Load as image with proper error handling
-        try {
-          const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-            const image = new Image();
-            
-            const handleImageLoad = () => {
-              image.removeEventListener('load', handleImageLoad);
-              image.removeEventListener('error', handleImageError);
-              resolve(image);
-            };
-            
-            const handleImageError = () => {
-              image.removeEventListener('load', handleImageLoad);
-              image.removeEventListener('error', handleImageError);
-              reject(new Error(`Failed to load image: ${file.name}`));
-            };
-            
-            image.addEventListener('load', handleImageLoad);
-            image.addEventListener('error', handleImageError);
-            
-            // Set a timeout to reject the promise if it takes too long
-            const timeout = setTimeout(() => {
-              image.removeEventListener('load', handleImageLoad);
-              image.removeEventListener('error', handleImageError);
-              reject(new Error(`Timed out loading image: ${file.name}`));
-            }, 10000);  // 10 second timeout
-            
-            image.onload = () => {
-              clearTimeout(timeout);
-              handleImageLoad();
-            };
-            
-            image.onerror = () => {
-              clearTimeout(timeout);
-              handleImageError();
-            };
-            
-            image.src = URL.createObjectURL(file);
-          });
-
-          // Face detection - explicitly reference faceapi 
-          const detection = await faceapi.detectSingleFace(
-            img, 
-            new faceapi.TinyFaceDetectorOptions({ inputSize: 320 })
-          )
-            .withFaceLandmarks()
-            .withFaceExpressions()
-            .withAgeAndGender()
-            .withFaceDescriptor();
-
-          if (!detection) {
-            toast({
-              title: "No face detected",
-              description: `No faces detected in "${file.name}"`,
-              variant: "destructive"
-            });
-            continue;
-          }
-
-          // Convert to base64 for storage
-          const canvas = document.createElement('canvas');
-          canvas.width = img.width;
-          canvas.height = img.height;
-          canvas.getContext('2d')?.drawImage(img, 0, 0);
-          const imageData = canvas.toDataURL('image/jpeg', 0.8);
-
-          const face: DetectedFace = {
-            detection: detection.detection,
-            expressions: detection.expressions,
-            age: detection.age,
-            gender: detection.gender,
-            descriptor: detection.descriptor,
-            timestamp: new Date(),
-            id: generateTemporaryId(),
-            image: imageData,
-            name: file.name.split('.')[0]
-          };
-
-          await FaceDetectionService.storeFaceInDatabase(face);
-
-          toast({
-            title: "Face uploaded",
-            description: `Face saved from "${file.name}"`,
-          });
-        } catch (imgError) {
-          console.error('Error processing image:', imgError);
-          toast({
-            title: "Error",
-            description: `Failed to process image "${file.name}": ${(imgError as Error).message}`,
-            variant: "destructive"
-          });
-        }
-      }
-
-      // Reset file input
-      if (fileInputRef.current) fileInputRef.current.value = "";
-      await loadFaces();
-
-    } catch (error) {
-      console.error('Error processing uploaded image:', error);
-      toast({
-        title: "Error",
-        description: "Could not process the uploaded image: " + (error as Error).message,
-        variant: "destructive"
-      });
-    } finally {
-      setIsUploading(false);
-    }
+    // Reset file input so the same photos can be chosen again
+    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
   // --- Render faces helper ---
@@ -332,17 +228,19 @@ const SavedFaces: React.FC = () => {
           <Card key={face.id} className="overflow-hidden bg-black border-gray-800">
             <div className="h-48 overflow-hidden bg-gray-800 cursor-pointer"
                  onClick={() => face.personId ? handleViewPersonDetails(face.personId) : setEditingFace(face)}>
-              {face.image ? (
-                <img
-                  src={face.image}
-                  alt={`Face ${index + 1}`}
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center bg-gray-800">
-                  <User className="h-24 w-24 text-gray-600" />
-                </div>
-              )}
+              <FaceImage
+                image={face.image}
+                imagePath={face.imagePath}
+                thumbnail={face.thumbnail}
+                faceId={face.id}
+                alt={`Face ${index + 1}`}
+                className="w-full h-full object-cover"
+                fallback={
+                  <div className="w-full h-full flex items-center justify-center bg-gray-800">
+                    <User className="h-24 w-24 text-gray-600" />
+                  </div>
+                }
+              />
             </div>
             <CardContent className="p-4">
               <h3 className="font-medium text-lg mb-2 text-white flex items-center">
@@ -475,6 +373,25 @@ const SavedFaces: React.FC = () => {
               )}
             </Button>
             
+            <Button
+              variant="outline"
+              onClick={() => setIsLibraryOpen(true)}
+              className="bg-gray-700 hover:bg-gray-600 text-white border-gray-600"
+            >
+              <Archive className="h-4 w-4 mr-2" />
+              Export / Import
+            </Button>
+            
+            <Button
+              variant="outline"
+              onClick={() => setIsFolderImportOpen(true)}
+              className="bg-gray-700 hover:bg-gray-600 text-white border-gray-600"
+              disabled={!modelsLoaded}
+            >
+              <FolderUp className="h-4 w-4 mr-2" />
+              Import Folder
+            </Button>
+            
             <input
               type="file"
               ref={fileInputRef}
@@ -487,9 +404,9 @@ const SavedFaces: React.FC = () => {
             <Button
               onClick={handleUploadClick}
               className="bg-gradient-to-r from-green-400 to-blue-500 hover:from-green-500 hover:to-blue-600"
-              disabled={isUploading || !modelsLoaded}
+              disabled={isImportOpen || !modelsLoaded}
             >
-              {isUploading ? (
+              {isImportOpen ? (
                 <>Processing...</>
               ) : (
                 <>
@@ -559,6 +476,28 @@ const SavedFaces: React.FC = () => {
         onUpdatePerson={loadFaces}
       />
       
+      {/* Photo import review */}
+      <PhotoImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        files={importFiles}
+        onComplete={loadFaces}
+      />
+
+      {/* Folder / ZIP import */}
+      <LabelledImportDialog
+        open={isFolderImportOpen}
+        onOpenChange={setIsFolderImportOpen}
+        onComplete={loadFaces}
+      />
+
+      {/* Library export / import */}
+      <LibraryBundleDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        onComplete={loadFaces}
+      />
+
       {/* Merge Dialog */}
       <FaceMergeDialog
         open={showMergeDialog}
@@ -1,26 +1,75 @@
+export type FacingMode = 'user' | 'environment';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Which camera to open and what to ask it for. Sizes and frame rate are
+// ideals, so a camera that cannot meet them still opens at its closest mode.
+export interface CameraPreference {
+  deviceId?: string; // Specific camera; facingMode is used when unset
+  facingMode: FacingMode;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+// What the camera actually delivered
+export interface ActiveCameraSettings {
+  deviceId?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+}
+
+export const RESOLUTION_PRESETS = [
+  { label: '640 × 480', width: 640, height: 480 },
+  { label: '1280 × 720 (HD)', width: 1280, height: 720 },
+  { label: '1920 × 1080 (Full HD)', width: 1920, height: 1080 },
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+const PREFERENCE_STORAGE_KEY = 'camera-preference';
+
+const DEFAULT_PREFERENCE: CameraPreference = { facingMode: 'user' };
 
 export class CameraManager {
+  /**
+   * Start a camera stream on the video element. The remembered device is
+   * tried first; if it has been unplugged the default camera is used instead.
+   */
   static async startCamera(
     videoElement: HTMLVideoElement | null,
-    facingMode: 'user' | 'environment'
+    preference: CameraPreference | FacingMode
   ): Promise<MediaStream | null> {
     if (!videoElement) return null;
-    
+
+    const options = typeof preference === 'string' ? { facingMode: preference } : preference;
+
     try {
-      const constraints: MediaStreamConstraints = {
-        video: { facingMode }
-      };
-      
-      const currentStream = await navigator.mediaDevices.getUserMedia(constraints);
+      let currentStream: MediaStream;
+      try {
+        currentStream = await navigator.mediaDevices.getUserMedia(CameraManager.buildConstraints(options));
+      } catch (error) {
+        if (!options.deviceId || !CameraManager.isDeviceUnavailable(error)) throw error;
+
+        console.warn(`Camera ${options.deviceId} is unavailable, falling back to the default camera`);
+        currentStream = await navigator.mediaDevices.getUserMedia(
+          CameraManager.buildConstraints({ ...options, deviceId: undefined })
+        );
+      }
+
       videoElement.srcObject = currentStream;
-      
+
       return currentStream;
     } catch (error) {
       console.error('Error accessing camera:', error);
       throw error;
     }
   }
-  
+
   static stopCamera(
     stream: MediaStream | null,
     videoElement: HTMLVideoElement | null
@@ -28,9 +77,91 @@ export class CameraManager {
     if (stream) {
       stream.getTracks().forEach(track => track.stop());
     }
-    
+
     if (videoElement) {
       videoElement.srcObject = null;
     }
   }
+
+  /**
+   * Video input devices. Browsers only reveal labels once camera access has
+   * been granted, so unlabelled devices are numbered instead.
+   */
+  static async listDevices(): Promise<CameraDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === 'videoinput' && device.deviceId)
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Camera ${index + 1}`,
+      }));
+  }
+
+  /**
+   * Call back with the current device list whenever a camera is plugged in
+   * or removed; returns an unsubscribe function
+   */
+  static watchDevices(callback: (devices: CameraDevice[]) => void): () => void {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return () => {};
+
+    const handleChange = () => {
+      CameraManager.listDevices()
+        .then(callback)
+        .catch(error => console.error('Error listing cameras:', error));
+    };
+
+    mediaDevices.addEventListener('devicechange', handleChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleChange);
+  }
+
+  /**
+   * Resolution, frame rate and device the stream is actually running at
+   */
+  static getActiveSettings(stream: MediaStream | null): ActiveCameraSettings | null {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return null;
+
+    const { deviceId, width, height, frameRate } = track.getSettings();
+    return { deviceId, width, height, frameRate };
+  }
+
+  /**
+   * The camera choice remembered on this browser. Device IDs are specific to
+   * the browser and site, so this is kept locally rather than in the profile.
+   */
+  static getPreference(): CameraPreference {
+    try {
+      const saved = localStorage.getItem(PREFERENCE_STORAGE_KEY);
+      return saved ? { ...DEFAULT_PREFERENCE, ...JSON.parse(saved) } : { ...DEFAULT_PREFERENCE };
+    } catch (error) {
+      console.error('Error reading camera preference:', error);
+      return { ...DEFAULT_PREFERENCE };
+    }
+  }
+
+  static savePreference(preference: CameraPreference): void {
+    localStorage.setItem(PREFERENCE_STORAGE_KEY, JSON.stringify(preference));
+  }
+
+  static buildConstraints(preference: CameraPreference): MediaStreamConstraints {
+    const { deviceId, facingMode, width, height, frameRate } = preference;
+
+    return {
+      video: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+        ...(width ? { width: { ideal: width } } : {}),
+        ...(height ? { height: { ideal: height } } : {}),
+        ...(frameRate ? { frameRate: { ideal: frameRate } } : {}),
+      },
+    };
+  }
+
+  // Errors getUserMedia raises when an exact device is missing or cannot be opened
+  private static isDeviceUnavailable(error: unknown): boolean {
+    const name = (error as DOMException)?.name;
+    return name === 'OverconstrainedError' || name === 'NotFoundError' || name === 'NotReadableError';
+  }
 }
@@ -0,0 +1,158 @@
+export interface ClipRecorderOptions {
+  preSeconds: number; // Minimum footage kept from before an event
+  postSeconds: number; // Footage recorded after an event
+}
+
+const DEFAULT_OPTIONS: ClipRecorderOptions = {
+  preSeconds: 5,
+  postSeconds: 5,
+};
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  // Set once an event claims the segment; it then records until stopAt
+  stopAt?: number;
+  result?: Promise<Blob | null>;
+}
+
+/**
+ * Rolling recorder for event clips. A new MediaRecorder segment starts every
+ * `preSeconds` and unclaimed segments are dropped once they are two periods
+ * old, so there is always a segment that began between one and two periods
+ * ago. An event claims the oldest one and lets it run `postSeconds` longer,
+ * which yields a complete, playable file with pre- and post-event footage.
+ */
+export class ClipRecorder {
+  private segments: Segment[] = [];
+  private rotateTimer: ReturnType<typeof setInterval> | null = null;
+  private options: ClipRecorderOptions;
+  private mimeType: string;
+
+  constructor(private stream: MediaStream, options: Partial<ClipRecorderOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.mimeType = ClipRecorder.getMimeType() ?? '';
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && ClipRecorder.getMimeType() !== undefined;
+  }
+
+  static getMimeType(): string | undefined {
+    if (typeof MediaRecorder === 'undefined') return undefined;
+    return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  }
+
+  get isRecording(): boolean {
+    return this.rotateTimer !== null;
+  }
+
+  start(): void {
+    if (this.rotateTimer !== null) return;
+
+    this.startSegment();
+    this.rotateTimer = setInterval(() => this.rotate(), this.options.preSeconds * 1000);
+  }
+
+  /**
+   * Stop recording. Clips already claimed by events still finish, early.
+   */
+  stop(): void {
+    if (this.rotateTimer !== null) {
+      clearInterval(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+
+    this.segments.forEach(segment => this.stopSegment(segment));
+    this.segments = [];
+  }
+
+  /**
+   * Claim a clip around the current moment; resolves once the post-event
+   * footage has been recorded, or null when nothing could be recorded
+   */
+  capture(): Promise<Blob | null> {
+    if (!this.isRecording) return Promise.resolve(null);
+
+    const { preSeconds, postSeconds } = this.options;
+    const now = Date.now();
+    const stopAt = now + postSeconds * 1000;
+    // Oldest first, so the claimed segment has the most pre-event footage;
+    // segments kept running by a string of events are not extended forever
+    const oldestStart = now - (preSeconds * 2 + postSeconds) * 1000;
+    const segment = this.segments.find(s => s.recorder.state === 'recording' && s.startedAt >= oldestStart);
+    if (!segment) return Promise.resolve(null);
+
+    // Events close together share a clip that runs until the last one is covered
+    segment.stopAt = Math.max(segment.stopAt ?? 0, stopAt);
+    if (!segment.result) {
+      segment.result = this.finishWhenDue(segment);
+      // The claimed segment no longer rotates out, so keep a fresh one ready
+      this.startSegment();
+    }
+
+    return segment.result;
+  }
+
+  private rotate(): void {
+    const maxAge = this.options.preSeconds * 2000;
+    const now = Date.now();
+
+    this.segments
+      .filter(segment => !segment.result && now - segment.startedAt >= maxAge)
+      .forEach(segment => this.stopSegment(segment));
+    this.segments = this.segments.filter(segment => segment.recorder.state !== 'inactive');
+
+    this.startSegment();
+  }
+
+  private startSegment(): void {
+    if (!this.stream.active) return;
+
+    try {
+      const recorder = new MediaRecorder(this.stream, this.mimeType ? { mimeType: this.mimeType } : undefined);
+      const segment: Segment = { recorder, chunks: [], startedAt: Date.now() };
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) segment.chunks.push(event.data);
+      };
+      recorder.start(1000);
+      this.segments.push(segment);
+    } catch (error) {
+      console.error('Could not start clip recording:', error);
+    }
+  }
+
+  private stopSegment(segment: Segment): void {
+    if (segment.recorder.state !== 'inactive') {
+      segment.recorder.stop();
+    }
+  }
+
+  private finishWhenDue(segment: Segment): Promise<Blob | null> {
+    return new Promise(resolve => {
+      // Also fires when recording stops early (camera off) with what was recorded
+      segment.recorder.addEventListener('stop', () => {
+        resolve(segment.chunks.length > 0
+          ? new Blob(segment.chunks, { type: segment.recorder.mimeType || this.mimeType })
+          : null);
+      }, { once: true });
+
+      const check = () => {
+        if (segment.recorder.state === 'inactive') return;
+
+        const remaining = segment.stopAt! - Date.now();
+        if (remaining <= 0) {
+          this.segments = this.segments.filter(s => s !== segment);
+          segment.recorder.stop();
+        } else {
+          setTimeout(check, Math.min(500, remaining));
+        }
+      };
+      check();
+    });
+  }
+}
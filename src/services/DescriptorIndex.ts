@@ -0,0 +1,240 @@
+import { DetectedFace } from './FaceDetectionService';
+import { Person } from './PersonService';
+
+export type IndexedPerson = Pick<Person, 'id' | 'name' | 'notes' | 'notifyOnRecognition' | 'notificationCooldownSeconds'>;
+
+export interface DescriptorMatch {
+  // Person the match belongs to, or the face ID for faces not yet grouped
+  label: string;
+  personId?: string;
+  person?: IndexedPerson;
+  // Nearest stored sample of this identity
+  faceId: string;
+  face: DetectedFace;
+  // Combined score used for ranking and thresholds
+  distance: number;
+  sampleDistance: number;
+  centroidDistance?: number;
+}
+
+interface IndexEntry {
+  face: DetectedFace;
+  descriptor: Float32Array;
+}
+
+// Distance added to a sample of quality 0, so clean samples win close calls
+const QUALITY_PENALTY = 0.05;
+
+/**
+ * In-memory nearest-neighbour index over stored face descriptors.
+ * Built from a full database load and then kept in sync as faces are stored,
+ * updated or deleted, so recognition never has to rebuild a matcher per frame.
+ *
+ * Faces grouped under a person are matched as one identity: the score is the
+ * mean of the distance to the person's quality-weighted mean descriptor and
+ * the distance to the closest individual sample.
+ */
+export class DescriptorIndex {
+  private static entries: Map<string, IndexEntry> = new Map();
+  private static persons: Map<string, IndexedPerson> = new Map();
+  // Mean descriptor per person, recomputed lazily after the person's samples change
+  private static centroids: Map<string, Float32Array> = new Map();
+  private static loaded = false;
+
+  static get size(): number {
+    return this.entries.size;
+  }
+
+  static get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Replace the whole index with a fresh snapshot of the stored faces
+   */
+  static rebuild(faces: DetectedFace[]): void {
+    this.entries.clear();
+    this.centroids.clear();
+    faces.forEach(face => this.upsert(face));
+    this.loaded = true;
+  }
+
+  /**
+   * Replace the person metadata used to label matches
+   */
+  static setPersons(persons: IndexedPerson[]): void {
+    this.persons = new Map(persons.map(person => [person.id, this.toIndexedPerson(person)]));
+  }
+
+  static setPerson(person: IndexedPerson): void {
+    this.persons.set(person.id, this.toIndexedPerson(person));
+  }
+
+  static getPerson(personId: string): IndexedPerson | undefined {
+    return this.persons.get(personId);
+  }
+
+  /**
+   * Add a face, or replace it if it is already indexed
+   */
+  static upsert(face: DetectedFace): void {
+    if (!face.id || !face.descriptor || face.descriptor.length === 0) return;
+
+    this.invalidate(this.entries.get(face.id)?.face.personId);
+    this.invalidate(face.personId);
+
+    this.entries.set(face.id, {
+      face,
+      descriptor: face.descriptor instanceof Float32Array
+        ? face.descriptor
+        : new Float32Array(face.descriptor),
+    });
+  }
+
+  /**
+   * Update metadata (name, person, notes...) of an indexed face
+   */
+  static patch(faceId: string, changes: Partial<DetectedFace>): void {
+    const entry = this.entries.get(faceId);
+    if (!entry) return;
+
+    if ('personId' in changes && changes.personId !== entry.face.personId) {
+      this.invalidate(entry.face.personId);
+      this.invalidate(changes.personId);
+    }
+
+    entry.face = { ...entry.face, ...changes, id: faceId, descriptor: entry.descriptor };
+  }
+
+  static remove(faceId: string): void {
+    this.invalidate(this.entries.get(faceId)?.face.personId);
+    this.entries.delete(faceId);
+  }
+
+  static removePerson(personId: string): void {
+    for (const [faceId, entry] of this.entries) {
+      if (entry.face.personId === personId) this.entries.delete(faceId);
+    }
+    this.invalidate(personId);
+    this.persons.delete(personId);
+  }
+
+  static clear(): void {
+    this.entries.clear();
+    this.persons.clear();
+    this.centroids.clear();
+    this.loaded = false;
+  }
+
+  /**
+   * Find the k nearest identities (persons, or ungrouped faces) to a descriptor
+   */
+  static findNearest(
+    descriptor: Float32Array,
+    k: number = 1,
+    maxDistance: number = Infinity,
+    filter?: (face: DetectedFace) => boolean
+  ): DescriptorMatch[] {
+    if (!descriptor || this.entries.size === 0 || k <= 0) return [];
+
+    const best = new Map<string, DescriptorMatch>();
+    // A combined score can be at most half the sample distance lower than it,
+    // so samples further than twice the threshold can never match
+    const maxSquared = (2 * maxDistance) * (2 * maxDistance);
+
+    for (const { face, descriptor: candidate } of this.entries.values()) {
+      if (candidate.length !== descriptor.length) continue;
+      if (filter && !filter(face)) continue;
+
+      const label = face.personId || face.id;
+      const current = best.get(label);
+      const bound = Math.min(maxSquared, current ? current.sampleDistance * current.sampleDistance : Infinity);
+      const squared = this.squaredDistance(descriptor, candidate, bound);
+
+      if (squared >= bound) continue;
+
+      const sampleDistance = Math.sqrt(squared) + QUALITY_PENALTY * (1 - this.getWeight(face));
+      if (current && sampleDistance >= current.sampleDistance) continue;
+
+      best.set(label, {
+        label,
+        personId: face.personId,
+        person: face.personId ? this.persons.get(face.personId) : undefined,
+        faceId: face.id,
+        face,
+        distance: sampleDistance,
+        sampleDistance,
+      });
+    }
+
+    for (const match of best.values()) {
+      if (!match.personId) continue;
+
+      const centroid = this.getCentroid(match.personId);
+      if (!centroid) continue;
+
+      match.centroidDistance = Math.sqrt(this.squaredDistance(descriptor, centroid, Infinity));
+      match.distance = (match.sampleDistance + match.centroidDistance) / 2;
+    }
+
+    return Array.from(best.values())
+      .filter(match => match.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+  }
+
+  private static getCentroid(personId: string): Float32Array | undefined {
+    const cached = this.centroids.get(personId);
+    if (cached) return cached;
+
+    let sum: Float64Array | null = null;
+    let count = 0;
+
+    for (const { face, descriptor } of this.entries.values()) {
+      if (face.personId !== personId) continue;
+
+      if (!sum) sum = new Float64Array(descriptor.length);
+      if (descriptor.length !== sum.length) continue;
+
+      const weight = this.getWeight(face);
+      for (let i = 0; i < descriptor.length; i++) sum[i] += descriptor[i] * weight;
+      count += weight;
+    }
+
+    if (!sum || count === 0) return undefined;
+
+    const centroid = Float32Array.from(sum, value => value / count);
+    this.centroids.set(personId, centroid);
+    return centroid;
+  }
+
+  // Samples stored before quality scoring count as fully trusted
+  private static getWeight(face: DetectedFace): number {
+    return face.quality === undefined ? 1 : Math.max(0.05, face.quality);
+  }
+
+  private static invalidate(personId?: string): void {
+    if (personId) this.centroids.delete(personId);
+  }
+
+  private static toIndexedPerson(person: IndexedPerson): IndexedPerson {
+    return {
+      id: person.id,
+      name: person.name,
+      notes: person.notes,
+      notifyOnRecognition: person.notifyOnRecognition,
+      notificationCooldownSeconds: person.notificationCooldownSeconds,
+    };
+  }
+
+  // Squared euclidean distance that gives up once it exceeds the bound
+  private static squaredDistance(a: Float32Array, b: Float32Array, bound: number): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      const diff = a[i] - b[i];
+      sum += diff * diff;
+      if (sum >= bound) return sum;
+    }
+    return sum;
+  }
+}
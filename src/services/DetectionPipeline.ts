@@ -0,0 +1,145 @@
+import * as faceapi from '@vladmandic/face-api';
+import { ModelLoadingService, ModelProgress } from './ModelLoadingService';
+
+// Kept free of DOM and app state so the detection worker can import it too
+
+export type PipelineMode = 'detect' | 'recognize' | 'analytics';
+
+export type DetectorKind = 'tiny' | 'ssd';
+
+export type ModelName =
+  | 'tinyFaceDetector'
+  | 'ssdMobilenetv1'
+  | 'faceLandmark68Net'
+  | 'faceRecognitionNet'
+  | 'faceExpressionNet'
+  | 'ageGenderNet';
+
+export const PIPELINE_MODES: { value: PipelineMode; label: string; description: string }[] = [
+  { value: 'detect', label: 'Detect only', description: 'Face boxes only; nothing is recognized' },
+  { value: 'recognize', label: 'Detect + recognize', description: 'Matches faces against your saved people' },
+  { value: 'analytics', label: 'Full analytics', description: 'Also estimates expression, age and gender' },
+];
+
+export const DETECTORS: { value: DetectorKind; label: string; description: string }[] = [
+  { value: 'tiny', label: 'Tiny Face Detector', description: 'Fast enough for live video' },
+  { value: 'ssd', label: 'SSD MobileNet v1', description: 'Slower, but finds small and angled faces' },
+];
+
+export const DETECTOR_MODELS: Record<DetectorKind, ModelName> = {
+  tiny: 'tinyFaceDetector',
+  ssd: 'ssdMobilenetv1',
+};
+
+// Networks each mode runs after the detector, in load order
+export const PIPELINE_MODELS: Record<PipelineMode, ModelName[]> = {
+  detect: [],
+  recognize: ['faceLandmark68Net', 'faceRecognitionNet'],
+  analytics: ['faceLandmark68Net', 'faceRecognitionNet', 'faceExpressionNet', 'ageGenderNet'],
+};
+
+// Plain settings for one detector, so they can be posted to the worker
+export interface DetectorConfig {
+  detector: DetectorKind;
+  inputSize: number; // Tiny detector only
+  scoreThreshold: number; // Tiny detector only
+  minConfidence: number; // SSD MobileNet only
+}
+
+export interface PipelineResult {
+  detection: faceapi.FaceDetection;
+  landmarks?: faceapi.FaceLandmarks68;
+  descriptor?: Float32Array;
+  expressions?: faceapi.FaceExpressions;
+  age?: number;
+  gender?: string;
+}
+
+export type PipelineInput = faceapi.TNetInput;
+
+/**
+ * Loads only the networks a detection mode needs and runs only its stages
+ */
+export class DetectionPipeline {
+  static isValidMode(mode: unknown): mode is PipelineMode {
+    return mode === 'detect' || mode === 'recognize' || mode === 'analytics';
+  }
+
+  static isValidDetector(detector: unknown): detector is DetectorKind {
+    return detector === 'tiny' || detector === 'ssd';
+  }
+
+  static isModelLoaded(model: ModelName): boolean {
+    return ModelLoadingService.isLoaded(model);
+  }
+
+  /**
+   * Networks a mode needs with the given detector, in load order
+   */
+  static getModels(mode: PipelineMode, detector: DetectorKind): ModelName[] {
+    return [DETECTOR_MODELS[detector], ...PIPELINE_MODELS[mode]];
+  }
+
+  /**
+   * Whether a mode computes descriptors, which matching and saving faces need
+   */
+  static recognizes(mode: PipelineMode): boolean {
+    return PIPELINE_MODELS[mode].includes('faceRecognitionNet');
+  }
+
+  static isModeLoaded(mode: PipelineMode, detector: DetectorKind): boolean {
+    return this.getModels(mode, detector).every(model => this.isModelLoaded(model));
+  }
+
+  static createOptions(config: DetectorConfig): faceapi.FaceDetectionOptions {
+    if (config.detector === 'ssd') {
+      return new faceapi.SsdMobilenetv1Options({ minConfidence: config.minConfidence });
+    }
+    return new faceapi.TinyFaceDetectorOptions({
+      inputSize: config.inputSize,
+      scoreThreshold: config.scoreThreshold,
+    });
+  }
+
+  /**
+   * Load the networks a mode needs with the given detector that are not loaded yet
+   */
+  static async loadModels(
+    mode: PipelineMode,
+    detector: DetectorKind,
+    modelUrl: string,
+    onProgress?: (progress: ModelProgress) => void
+  ): Promise<void> {
+    for (const model of this.getModels(mode, detector)) {
+      await ModelLoadingService.loadModel(model, modelUrl, onProgress);
+    }
+  }
+
+  /**
+   * Detect every face in the input, running only the stages of the mode
+   */
+  static async detectAll(
+    input: PipelineInput,
+    config: DetectorConfig,
+    mode: PipelineMode
+  ): Promise<PipelineResult[]> {
+    const options = this.createOptions(config);
+
+    if (mode === 'detect') {
+      const detections = await faceapi.detectAllFaces(input, options);
+      return detections.map(detection => ({ detection }));
+    }
+
+    if (mode === 'recognize') {
+      return faceapi.detectAllFaces(input, options)
+        .withFaceLandmarks()
+        .withFaceDescriptors();
+    }
+
+    return faceapi.detectAllFaces(input, options)
+      .withFaceLandmarks()
+      .withFaceExpressions()
+      .withAgeAndGender()
+      .withFaceDescriptors();
+  }
+}
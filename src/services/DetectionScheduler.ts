@@ -0,0 +1,110 @@
+import { DetectedFace } from './FaceDetectionService';
+import { DetectionStats, DetectionWorkerClient } from './DetectionWorkerClient';
+
+// Frames counted towards each feed's FPS reading
+const STATS_WINDOW_MS = 1000;
+
+interface ScheduledFeed {
+  video: HTMLVideoElement;
+  onResult: (faces: DetectedFace[]) => void;
+  completedAt: number[];
+  latencyMs: number;
+}
+
+/**
+ * Shares one detection worker, and so one copy of the models, between several
+ * camera feeds. Feeds take turns: whenever the worker is idle the next feed
+ * with a playing video hands over its current frame, so each feed runs at
+ * roughly the worker's throughput divided by the number of feeds.
+ */
+export class DetectionScheduler {
+  private client = new DetectionWorkerClient();
+  private feeds: Map<string, ScheduledFeed> = new Map();
+  private order: string[] = [];
+  private cursor = 0;
+  private frameRequest: number | null = null;
+
+  get isRunning(): boolean {
+    return this.frameRequest !== null;
+  }
+
+  /**
+   * Add a feed to the rotation; returns a function that removes it
+   */
+  addFeed(id: string, video: HTMLVideoElement, onResult: (faces: DetectedFace[]) => void): () => void {
+    this.feeds.set(id, { video, onResult, completedAt: [], latencyMs: 0 });
+    if (!this.order.includes(id)) this.order.push(id);
+
+    return () => this.removeFeed(id);
+  }
+
+  removeFeed(id: string): void {
+    this.feeds.delete(id);
+    this.order = this.order.filter(feedId => feedId !== id);
+  }
+
+  statsFor(id: string): DetectionStats | null {
+    const feed = this.feeds.get(id);
+    if (!feed) return null;
+
+    const since = performance.now() - STATS_WINDOW_MS;
+    return {
+      fps: feed.completedAt.filter(time => time >= since).length * 1000 / STATS_WINDOW_MS,
+      latencyMs: Math.round(feed.latencyMs),
+    };
+  }
+
+  start(): void {
+    if (this.frameRequest !== null) return;
+
+    this.client.start();
+
+    const tick = () => {
+      this.dispatchNext();
+      this.frameRequest = requestAnimationFrame(tick);
+    };
+    this.frameRequest = requestAnimationFrame(tick);
+  }
+
+  stop(): void {
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.client.stop();
+  }
+
+  // Offer the next ready feed's frame to the worker if it is idle
+  private dispatchNext(): void {
+    if (this.client.busy || this.order.length === 0) return;
+
+    for (let i = 0; i < this.order.length; i++) {
+      const id = this.order[(this.cursor + i) % this.order.length];
+      const feed = this.feeds.get(id);
+      if (!feed || feed.video.paused || !feed.video.videoWidth) continue;
+
+      this.cursor = (this.cursor + i + 1) % this.order.length;
+      this.detect(id, feed);
+      return;
+    }
+  }
+
+  private detect(id: string, feed: ScheduledFeed): void {
+    const startedAt = performance.now();
+
+    this.client.detect(feed.video)
+      .then(faces => {
+        // Dropped frames and feeds removed mid-flight are ignored
+        if (!faces || this.feeds.get(id) !== feed) return;
+
+        const now = performance.now();
+        feed.latencyMs = now - startedAt;
+        feed.completedAt = feed.completedAt.filter(time => time >= now - STATS_WINDOW_MS);
+        feed.completedAt.push(now);
+        feed.onResult(faces);
+      })
+      .catch(error => {
+        console.error(`Error detecting faces on feed ${id}:`, error);
+      });
+  }
+}
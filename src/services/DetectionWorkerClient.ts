@@ -0,0 +1,220 @@
+import * as faceapi from '@vladmandic/face-api';
+import { DetectedFace, FaceDetectionService } from './FaceDetectionService';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
+import { MODEL_URL } from './ModelLoadingService';
+import { SerializedFace, WorkerRequest, WorkerResponse } from '@/workers/faceDetectionProtocol';
+
+// Frames counted towards the FPS reading
+const STATS_WINDOW_MS = 1000;
+
+export interface DetectionStats {
+  fps: number;
+  latencyMs: number; // From frame capture to result, for the latest frame
+}
+
+/**
+ * Runs face detection for the live camera in a Web Worker so the UI thread
+ * only captures frames and renders. Only one frame is in flight at a time:
+ * frames offered while the worker is busy are dropped instead of queued.
+ * Falls back to detecting on the main thread where workers with
+ * OffscreenCanvas are unavailable.
+ */
+export class DetectionWorkerClient {
+  private worker: Worker | null = null;
+  private ready: Promise<boolean> | null = null;
+  private isReady = false;
+  private pending: { id: number; resolve: (faces: DetectedFace[]) => void; reject: (error: Error) => void } | null = null;
+  private nextId = 1;
+  private useWorker = DetectionWorkerClient.isSupported();
+  private completedAt: number[] = [];
+  private latencyMs = 0;
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * True while a frame is being processed; new frames should be skipped
+   */
+  get busy(): boolean {
+    return this.pending !== null;
+  }
+
+  get isUsingWorker(): boolean {
+    return this.useWorker;
+  }
+
+  get stats(): DetectionStats {
+    const since = performance.now() - STATS_WINDOW_MS;
+    return {
+      fps: this.completedAt.filter(time => time >= since).length * 1000 / STATS_WINDOW_MS,
+      latencyMs: Math.round(this.latencyMs),
+    };
+  }
+
+  /**
+   * Start the worker and load its models; resolves false when falling back to the main thread
+   */
+  start(): Promise<boolean> {
+    if (!this.useWorker) return Promise.resolve(false);
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise<boolean>(resolve => {
+      try {
+        this.worker = new Worker(new URL('../workers/faceDetection.worker.ts', import.meta.url), { type: 'module' });
+      } catch (error) {
+        console.error('Could not start detection worker, detecting on the main thread:', error);
+        this.fallBack();
+        resolve(false);
+        return;
+      }
+
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+
+        if (message.type === 'loaded') {
+          console.log('Detection worker ready');
+          this.isReady = true;
+          resolve(true);
+        } else if (message.type === 'result') {
+          this.settle(message.id, done => done(this.toDetectedFaces(message.faces, message.width, message.height)));
+        } else if (message.id === undefined) {
+          console.error('Detection worker failed to load models, detecting on the main thread:', message.message);
+          this.fallBack();
+          resolve(false);
+        } else {
+          this.settle(message.id, (_, reject) => reject(new Error(message.message)));
+        }
+      };
+
+      this.worker.onerror = (event) => {
+        console.error('Detection worker crashed, detecting on the main thread:', event.message);
+        this.pending?.reject(new Error(event.message));
+        this.pending = null;
+        this.fallBack();
+        resolve(false);
+      };
+
+      this.post({
+        type: 'load',
+        modelUrl: MODEL_URL,
+        mode: RecognitionSettingsService.getSettings().pipelineMode,
+        detector: RecognitionSettingsService.getDetector('live'),
+      });
+    });
+
+    return this.ready;
+  }
+
+  /**
+   * Detect faces in the current video frame. Resolves null when the frame was
+   * dropped because a previous one is still being processed.
+   */
+  async detect(video: HTMLVideoElement): Promise<DetectedFace[] | null> {
+    if (this.busy || !video.videoWidth) return null;
+
+    const startedAt = performance.now();
+
+    if (!this.useWorker) {
+      this.pending = { id: 0, resolve: () => {}, reject: () => {} };
+      try {
+        const faces = await FaceDetectionService.detectFaces(video);
+        this.recordFrame(startedAt);
+        return faces;
+      } finally {
+        this.pending = null;
+      }
+    }
+
+    // Frames arriving while the worker loads its models are dropped too
+    if (!this.isReady) {
+      this.start();
+      return null;
+    }
+
+    const id = this.nextId++;
+    const result = new Promise<DetectedFace[]>((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+    });
+
+    try {
+      const frame = await createImageBitmap(video);
+      const config = FaceDetectionService.getDetectorConfig('live');
+      const { pipelineMode } = RecognitionSettingsService.getSettings();
+      this.post({ type: 'detect', id, frame, config, mode: pipelineMode }, [frame]);
+    } catch (error) {
+      this.pending = null;
+      throw error;
+    }
+
+    const faces = await result;
+    this.recordFrame(startedAt);
+    return faces;
+  }
+
+  stop(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+    this.isReady = false;
+    this.pending?.resolve([]);
+    this.pending = null;
+    this.completedAt = [];
+    this.latencyMs = 0;
+  }
+
+  private recordFrame(startedAt: number): void {
+    const now = performance.now();
+    this.latencyMs = now - startedAt;
+    this.completedAt = this.completedAt.filter(time => time >= now - STATS_WINDOW_MS);
+    this.completedAt.push(now);
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private settle(
+    id: number,
+    handler: (resolve: (faces: DetectedFace[]) => void, reject: (error: Error) => void) => void
+  ): void {
+    if (!this.pending || this.pending.id !== id) return;
+
+    const { resolve, reject } = this.pending;
+    this.pending = null;
+    handler(resolve, reject);
+  }
+
+  private fallBack(): void {
+    this.useWorker = false;
+    this.isReady = false;
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  // Rebuild face-api objects so the rest of the app sees the same shapes as main-thread detection
+  private toDetectedFaces(faces: SerializedFace[], width: number, height: number): DetectedFace[] {
+    const imageDims = { width, height };
+
+    return faces.map(face => ({
+      detection: new faceapi.FaceDetection(
+        face.score,
+        new faceapi.Rect(face.box.x / width, face.box.y / height, face.box.width / width, face.box.height / height),
+        imageDims
+      ),
+      // Landmarks are rebuilt from positions relative to the frame
+      landmarks: face.landmarks && new faceapi.FaceLandmarks68(
+        face.landmarks.map(point => new faceapi.Point(point.x / width, point.y / height)),
+        imageDims
+      ),
+      expressions: face.expressions,
+      age: face.age,
+      gender: face.gender,
+      descriptor: face.descriptor,
+      timestamp: new Date(),
+      id: FaceDetectionService.generateFaceId(),
+    }));
+  }
+}
@@ -0,0 +1,37 @@
+import { getRepositories } from "@/services/storage";
+
+const EXTENSIONS: Record<string, string> = {
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+/**
+ * Keeps recognition event clips in the same object storage as face images
+ */
+export class EventClipService {
+  /**
+   * Upload a clip and return its object path
+   */
+  static async store(clip: Blob): Promise<string> {
+    const { images, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+    const extension = EXTENSIONS[clip.type.split(';')[0]] ?? 'webm';
+    const path = `${userId || 'anonymous'}/clips/${crypto.randomUUID()}.${extension}`;
+
+    await images.upload(path, clip);
+    return path;
+  }
+
+  /**
+   * URL the browser can play the clip from; may expire, so fetch it when shown
+   */
+  static getUrl(path: string): Promise<string> {
+    return getRepositories().images.getUrl(path);
+  }
+
+  static async fetchBlob(path: string): Promise<Blob> {
+    const response = await fetch(await this.getUrl(path));
+    if (!response.ok) throw new Error(`Could not download clip: HTTP ${response.status}`);
+    return response.blob();
+  }
+}
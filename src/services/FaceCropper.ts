@@ -0,0 +1,81 @@
+import * as faceapi from '@vladmandic/face-api';
+import { FaceBox } from './FaceDetectionService';
+
+export type FaceCropSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export interface FaceCropOptions {
+  padding: number; // Margin added around the face, as a fraction of its size
+  outputSize: number; // Width and height of the square crop in pixels
+  jpegQuality: number; // Encoder quality (0-1)
+}
+
+export const DEFAULT_CROP_OPTIONS: FaceCropOptions = {
+  padding: 0.4,
+  outputSize: 224,
+  jpegQuality: 0.9,
+};
+
+/**
+ * Produces the face thumbnails that are stored with each sample: a square,
+ * padded crop with the eyes rotated level, so captures from the camera and
+ * from uploaded photos look alike.
+ */
+export class FaceCropper {
+  /**
+   * Crop a face out of a frame or image and return it as a JPEG data URL
+   */
+  static crop(
+    source: FaceCropSource,
+    box: FaceBox,
+    landmarks?: faceapi.FaceLandmarks68,
+    options: Partial<FaceCropOptions> = {}
+  ): string {
+    const { padding, outputSize, jpegQuality } = { ...DEFAULT_CROP_OPTIONS, ...options };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = outputSize;
+    canvas.height = outputSize;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) return '';
+
+    const { angle, center } = this.getAlignment(box, landmarks);
+    const side = Math.max(box.width, box.height) * (1 + 2 * padding);
+    const scale = outputSize / side;
+
+    // Areas outside the source stay black rather than transparent in the JPEG
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, outputSize, outputSize);
+
+    ctx.translate(outputSize / 2, outputSize / 2);
+    ctx.scale(scale, scale);
+    ctx.rotate(-angle);
+    ctx.drawImage(source, -center.x, -center.y);
+
+    return canvas.toDataURL('image/jpeg', jpegQuality);
+  }
+
+  /**
+   * Rotation that levels the eyes, and the point the crop is centred on
+   */
+  private static getAlignment(
+    box: FaceBox,
+    landmarks?: faceapi.FaceLandmarks68
+  ): { angle: number; center: { x: number; y: number } } {
+    const boxCenter = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    if (!landmarks) return { angle: 0, center: boxCenter };
+
+    const mean = (points: faceapi.Point[]) => ({
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    });
+
+    const leftEye = mean(landmarks.getLeftEye());
+    const rightEye = mean(landmarks.getRightEye());
+
+    return {
+      angle: Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x),
+      center: boxCenter,
+    };
+  }
+}
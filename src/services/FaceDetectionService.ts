@@ -1,9 +1,25 @@
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories, NotificationRow, StoredFaceRow } from "@/services/storage";
 import * as faceapi from '@vladmandic/face-api';
+import { DescriptorIndex } from './DescriptorIndex';
+import { DetectionContext, RecognitionSettingsService } from './RecognitionSettingsService';
+import { FaceQuality, FaceQualityService, FaceQualitySource } from './FaceQualityService';
+import { FaceCropper } from './FaceCropper';
+import { FaceImageService } from './FaceImageService';
+import { DetectionPipeline, DetectorConfig, DetectorKind, PipelineMode, PipelineResult } from './DetectionPipeline';
+import { MODEL_URL, ModelProgress } from './ModelLoadingService';
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface DetectedFace {
   id: string;
-  image?: string;
+  image?: string; // Full image as a data URL, when loaded or freshly captured
+  imagePath?: string; // Object storage path of the full image
+  thumbnail?: string;
   timestamp: Date;
   name?: string;
   notes?: string;
@@ -15,72 +31,88 @@ export interface DetectedFace {
   isRecognized?: boolean;
   personId?: string;
   notifyOnRecognition?: boolean;
+  notificationCooldownSeconds?: number | null; // Person's override of the notification cooldown
   similarity?: number; // Added missing similarity property
+  box?: FaceBox; // Smoothed box from tracking, in video pixels
+  landmarks?: faceapi.FaceLandmarks68;
+  quality?: number; // Sample quality score (0-1) from FaceQualityService
 }
 
+// Name of auto-saved faces until someone identifies them
+export const UNIDENTIFIED_FACE_NAME = 'Unidentified Face';
+
 export class FaceDetectionService {
-  private static FACE_API_URL = '/models';
-  private static FACE_SIZE = 320;
-  private static MIN_CONFIDENCE = 0.8;
-  
   /**
-   * Load all faceapi models
+   * Load the models a detection mode needs, by default the live camera's mode and detector
    */
-  static async loadModels(): Promise<void> {
-    console.log('Loading face detection models...');
+  static async loadModels(
+    mode: PipelineMode = RecognitionSettingsService.getSettings().pipelineMode,
+    detector: DetectorKind = RecognitionSettingsService.getDetector('live'),
+    onProgress?: (progress: ModelProgress) => void
+  ): Promise<void> {
+    console.log(`Loading face detection models for ${mode} mode with the ${detector} detector...`);
     
-    await faceapi.nets.tinyFaceDetector.loadFromUri(FaceDetectionService.FACE_API_URL);
-    await faceapi.nets.faceLandmark68Net.loadFromUri(FaceDetectionService.FACE_API_URL);
-    await faceapi.nets.faceRecognitionNet.loadFromUri(FaceDetectionService.FACE_API_URL);
-    await faceapi.nets.faceExpressionNet.loadFromUri(FaceDetectionService.FACE_API_URL);
-    await faceapi.nets.ageGenderNet.loadFromUri(FaceDetectionService.FACE_API_URL);
+    await DetectionPipeline.loadModels(mode, detector, MODEL_URL, onProgress);
     
-    console.log('All face detection models loaded!');
+    console.log('Face detection models loaded!');
   }
   
   /**
-   * Detect faces in the video stream
+   * Mode for uploads and enrollment, which always need descriptors
    */
-  static async detectFaces(
-    video: HTMLVideoElement, 
-    canvas: HTMLCanvasElement
-  ): Promise<DetectedFace[]> {
+  static getEnrollmentMode(): PipelineMode {
+    const { pipelineMode } = RecognitionSettingsService.getSettings();
+    return pipelineMode === 'analytics' ? 'analytics' : 'recognize';
+  }
+  
+  /**
+   * Detect every face in an uploaded image, loading any models enrollment needs
+   */
+  static async detectAllFacesInImage(image: HTMLImageElement | HTMLCanvasElement): Promise<PipelineResult[]> {
+    const mode = FaceDetectionService.getEnrollmentMode();
+    const config = FaceDetectionService.getDetectorConfig('upload');
+    await FaceDetectionService.loadModels(mode, config.detector);
+    
+    return DetectionPipeline.detectAll(image, config, mode);
+  }
+  
+  /**
+   * Detector and confidence settings the user chose for a detection context
+   */
+  static getDetectorConfig(context: DetectionContext): DetectorConfig {
+    const { inputSize, scoreThreshold, ssdMinConfidence } = RecognitionSettingsService.getSettings();
+    return {
+      detector: RecognitionSettingsService.getDetector(context),
+      inputSize,
+      scoreThreshold,
+      minConfidence: ssdMinConfidence,
+    };
+  }
+  
+  /**
+   * Detect faces in a video frame on the main thread.
+   * The live camera goes through DetectionWorkerClient, which falls back to this.
+   */
+  static async detectFaces(video: HTMLVideoElement): Promise<DetectedFace[]> {
     if (!video) {
       console.warn('No video stream detected');
       return [];
     }
     
-    // Set canvas dimensions to video dimensions
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+    // Only the stages of the configured pipeline run; a mode switched to
+    // mid-session loads its extra models on the first frame
+    const { pipelineMode } = RecognitionSettingsService.getSettings();
+    const config = FaceDetectionService.getDetectorConfig('live');
+    if (!DetectionPipeline.isModeLoaded(pipelineMode, config.detector)) {
+      await FaceDetectionService.loadModels(pipelineMode, config.detector);
+    }
     
-    // Use the tiny face detector
-    const detections = await faceapi.detectAllFaces(
-      video, 
-      new faceapi.TinyFaceDetectorOptions({ 
-        inputSize: FaceDetectionService.FACE_SIZE, 
-        scoreThreshold: FaceDetectionService.MIN_CONFIDENCE 
-      })
-    )
-      .withFaceLandmarks()
-      .withFaceExpressions()
-      .withAgeAndGender()
-      .withFaceDescriptors();
+    const detections = await DetectionPipeline.detectAll(video, config, pipelineMode);
     
     if (!detections || detections.length === 0) {
       return [];
     }
     
-    // Draw the detections on the canvas
-    const displaySize = { width: video.videoWidth, height: video.videoHeight };
-    const resizedDetections = faceapi.resizeResults(detections, displaySize);
-    faceapi.matchDimensions(canvas, displaySize);
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-    }
-    faceapi.draw.drawDetections(canvas, resizedDetections);
-    
     // Convert faceapi detections to our DetectedFace format
     return detections.map(detection => ({
       detection: detection.detection,
@@ -88,43 +120,114 @@ export class FaceDetectionService {
       age: detection.age,
       gender: detection.gender,
       descriptor: detection.descriptor,
+      landmarks: detection.landmarks,
       timestamp: new Date(),
       id: FaceDetectionService.generateFaceId(),
     }));
   }
   
   /**
-   * Compare detected face against known faces
+   * Draw face boxes, labelled with the recognized name, on the overlay canvas
    */
-  static compareFaces(
-    detectedFace: DetectedFace, 
-    knownFaces: DetectedFace[]
-  ): DetectedFace | undefined {
-    if (!detectedFace.descriptor || knownFaces.length === 0) {
+  static drawFaces(canvas: HTMLCanvasElement, faces: DetectedFace[]): void {
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    }
+    
+    faces.forEach(face => {
+      const box = face.box || face.detection?.box;
+      if (!box) return;
+      
+      new faceapi.draw.DrawBox(
+        new faceapi.Rect(box.x, box.y, box.width, box.height),
+        {
+          label: face.isRecognized ? face.name : undefined,
+          boxColor: face.isRecognized ? 'rgba(34, 197, 94, 1)' : 'rgba(234, 179, 8, 1)',
+        }
+      ).draw(canvas);
+    });
+  }
+  
+  /**
+   * Compare detected face against the descriptor index of known persons and faces
+   */
+  static compareFaces(detectedFace: DetectedFace): DetectedFace | undefined {
+    if (!detectedFace.descriptor || DescriptorIndex.size === 0) {
       return undefined;
     }
     
-    const faceMatcher = new faceapi.FaceMatcher(
-      knownFaces.map(face => new faceapi.LabeledFaceDescriptors(
-        face.id, 
-        [face.descriptor!]
-      ))
+    const [bestMatch] = DescriptorIndex.findNearest(
+      detectedFace.descriptor, 
+      1, 
+      RecognitionSettingsService.getSettings().matchDistance
     );
     
-    const bestMatch = faceMatcher.findBestMatch(detectedFace.descriptor);
-    
-    if (bestMatch.label === 'unknown') {
+    if (!bestMatch) {
       return undefined;
     }
     
-    const matchedFace = knownFaces.find(face => face.id === bestMatch.label);
+    // Recognized faces carry the person's details rather than the sample's
+    const { person } = bestMatch;
     
-    if (matchedFace) {
-      matchedFace.isRecognized = true;
-      matchedFace.similarity = 1 - bestMatch.distance; // Add similarity score
+    return {
+      ...bestMatch.face,
+      name: person?.name ?? bestMatch.face.name,
+      notes: person ? person.notes : bestMatch.face.notes,
+      notifyOnRecognition: person ? person.notifyOnRecognition : bestMatch.face.notifyOnRecognition,
+      notificationCooldownSeconds: person?.notificationCooldownSeconds,
+      isRecognized: true,
+      similarity: 1 - bestMatch.distance, // Add similarity score
+    };
+  }
+  
+  /**
+   * Whether a match is an auto-saved face nobody has named yet. It tells the
+   * camera it has seen this stranger before, but is not a known person.
+   */
+  static isUnidentified(face: DetectedFace): boolean {
+    return face.name === UNIDENTIFIED_FACE_NAME;
+  }
+
+  /**
+   * Build the descriptor index from the database unless it is already loaded.
+   * Persons are loaded with it so matches carry the person's details.
+   */
+  static async ensureDescriptorIndex(): Promise<void> {
+    if (!DescriptorIndex.isLoaded) {
+      await FaceDetectionService.reloadDescriptorIndex();
+    }
+  }
+
+  /**
+   * Rebuild the descriptor index and its person details from the database
+   */
+  static async reloadDescriptorIndex(): Promise<void> {
+    await Promise.all([
+      FaceDetectionService.getFacesFromDatabase(),
+      FaceDetectionService.loadIndexedPersons(),
+    ]);
+  }
+
+  /**
+   * Load the person details used to label matches into the descriptor index
+   */
+  private static async loadIndexedPersons(): Promise<void> {
+    try {
+      const { persons, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      const rows = await persons.list({ userId });
+
+      DescriptorIndex.setPersons(rows.map(person => ({
+        id: person.id,
+        name: person.name,
+        notes: person.notes,
+        notifyOnRecognition: person.notify_on_recognition,
+        notificationCooldownSeconds: person.notification_cooldown_seconds,
+      })));
+    } catch (error) {
+      console.error('Error fetching persons for the recognition index:', error);
     }
-    
-    return matchedFace;
   }
   
   /**
@@ -144,45 +247,33 @@ export class FaceDetectionService {
     detectedFaces.forEach(face => {
       if (!face.detection) return;
       
-      // Extract face region from video frame
-      const { x, y, width, height } = face.detection.box;
-      
-      // Create a canvas to draw the face region
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return;
-      
-      // Draw the face region on the canvas
-      ctx.drawImage(
-        video,
-        x,
-        y,
-        width,
-        height,
-        0,
-        0,
-        width,
-        height
-      );
-      
-      // Convert the canvas to a data URL
-      const imageData = canvas.toDataURL('image/jpeg');
+      // Aligned, padded crop around the face
+      const imageData = FaceCropper.crop(video, face.detection.box, face.landmarks);
+      if (!imageData) return;
       
       // Add the image data to the face object
       face.image = imageData;
+      if (face.quality === undefined) {
+        face.quality = FaceDetectionService.assessQuality(video, face).score;
+      }
       capturedFaces.push(face);
     });
     
     return capturedFaces;
   }
   
+  /**
+   * Score a detected face's sharpness, size, lighting and pose in its source frame
+   */
+  static assessQuality(source: FaceQualitySource, face: DetectedFace): FaceQuality {
+    const box = face.detection?.box || face.box;
+    return FaceQualityService.assess(source, box, face.landmarks);
+  }
+  
   /**
    * Generate a unique ID for each detected face
    */
-  private static generateFaceId(): string {
+  static generateFaceId(): string {
     return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   }
   
@@ -205,31 +296,36 @@ export class FaceDetectionService {
    * Store face in database
    */
   static async storeFaceInDatabase(face: DetectedFace): Promise<string> {
+    // A face without a descriptor could never be recognized, and exports and imports expect one
+    if (!face.descriptor) {
+      throw new Error('Cannot store a face without a descriptor');
+    }
+    
     try {
-      const { data, error } = await supabase
-        .from('stored_faces') // Changed from 'faces' to 'stored_faces'
-        .insert({
-          image: face.image,
-          timestamp: face.timestamp.toISOString(),
-          name: face.name,
-          notes: face.notes,
-          detection: face.detection,
-          descriptor: face.descriptor ? Array.from(face.descriptor) : null,
-          expressions: face.expressions,
-          age: face.age,
-          gender: face.gender,
-          person_id: face.personId,
-          notify_on_recognition: face.notifyOnRecognition
-        })
-        .select()
-        .single();
-        
-      if (error) {
-        console.error('Error saving face to database:', error);
-        throw error;
-      }
+      // Full images go to object storage; the row keeps the path and a thumbnail
+      const stored = await FaceImageService.storeIfInline('faces', face.image);
+      const { faces, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
       
-      return data.id;
+      const row = await faces.insert({
+        user_id: userId,
+        image: stored ? null : face.image,
+        image_path: stored?.path ?? face.imagePath,
+        thumbnail: stored?.thumbnail ?? face.thumbnail,
+        created_at: face.timestamp.toISOString(),
+        name: face.name,
+        notes: face.notes,
+        descriptor: Array.from(face.descriptor),
+        age: face.age,
+        gender: face.gender,
+        person_id: face.personId,
+        notify_on_recognition: face.notifyOnRecognition,
+        quality_score: face.quality
+      });
+      
+      DescriptorIndex.upsert(FaceDetectionService.fromStoredFace(row));
+      
+      return row.id;
     } catch (error) {
       console.error('Error saving face to database:', error);
       throw error;
@@ -241,48 +337,64 @@ export class FaceDetectionService {
    */
   static async getFacesFromDatabase(): Promise<DetectedFace[]> {
     try {
-      const { data, error } = await supabase
-        .from('stored_faces') // Changed from 'faces' to 'stored_faces'
-        .select('*')
-        .order('timestamp', { ascending: false });
-        
-      if (error) {
-        console.error('Error fetching faces from database:', error);
-        return [];
-      }
+      const { faces, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      const rows = await faces.list({ userId });
       
       // Convert the data to our DetectedFace format
-      return data.map(face => ({
-        ...face,
-        timestamp: new Date(face.timestamp),
-        descriptor: face.descriptor ? new Float32Array(face.descriptor) : undefined,
-        notifyOnRecognition: face.notify_on_recognition,
-        personId: face.person_id,
-      })) as DetectedFace[];
+      const detectedFaces = rows.map(FaceDetectionService.fromStoredFace);
+      
+      // A full load is the cheapest moment to resync the recognition index
+      DescriptorIndex.rebuild(detectedFaces);
+      
+      return detectedFaces;
     } catch (error) {
       console.error('Error fetching faces from database:', error);
       return [];
     }
   }
   
+  /**
+   * Convert a stored_faces row to our DetectedFace format
+   */
+  static fromStoredFace(face: StoredFaceRow): DetectedFace {
+    return {
+      id: face.id,
+      name: face.name,
+      notes: face.notes,
+      image: face.image ?? undefined,
+      imagePath: face.image_path ?? undefined,
+      thumbnail: face.thumbnail ?? face.image ?? undefined,
+      age: face.age,
+      gender: face.gender,
+      timestamp: new Date(face.created_at || face.last_seen),
+      descriptor: face.descriptor ? new Float32Array(face.descriptor) : undefined,
+      notifyOnRecognition: face.notify_on_recognition,
+      personId: face.person_id,
+      quality: face.quality_score ?? undefined,
+      detection: null,
+    };
+  }
+  
   /**
    * Update face in database
    */
   static async updateFaceInDatabase(face: DetectedFace): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('stored_faces') // Changed from 'faces' to 'stored_faces'
-        .update({
-          name: face.name,
-          notes: face.notes,
-          notify_on_recognition: face.notifyOnRecognition
-        })
-        .eq('id', face.id);
-        
-      if (error) {
-        console.error('Error updating face in database:', error);
-        return false;
-      }
+      const { faces, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      
+      await faces.update(face.id, {
+        name: face.name,
+        notes: face.notes,
+        notify_on_recognition: face.notifyOnRecognition
+      }, { userId });
+      
+      DescriptorIndex.patch(face.id, {
+        name: face.name,
+        notes: face.notes,
+        notifyOnRecognition: face.notifyOnRecognition
+      });
       
       return true;
     } catch (error) {
@@ -296,16 +408,19 @@ export class FaceDetectionService {
    */
   static async deleteFaceFromDatabase(faceId: string): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('stored_faces') // Changed from 'faces' to 'stored_faces'
-        .delete()
-        .eq('id', faceId);
-        
-      if (error) {
-        console.error('Error deleting face from database:', error);
+      const { faces, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      
+      // Only allow deleting faces that belong to the current user
+      const face = await faces.getById(faceId, { userId });
+      if (!face) {
+        console.error('Face not found or does not belong to current user');
         return false;
       }
       
+      await faces.delete(faceId, { userId });
+      DescriptorIndex.remove(faceId);
+      await FaceImageService.remove([face?.image_path]);
       return true;
     } catch (error) {
       console.error('Error deleting face from database:', error);
@@ -316,9 +431,9 @@ export class FaceDetectionService {
   /**
    * Auto-save unidentified face
    */
-  static async autoSaveUnidentifiedFace(face: DetectedFace): Promise<void> {
+  static async autoSaveUnidentifiedFace(face: DetectedFace): Promise<string | undefined> {
     try {
-      face.name = 'Unidentified Face';
+      face.name = UNIDENTIFIED_FACE_NAME;
       face.notes = 'Automatically saved';
       
       // Store in database
@@ -327,10 +442,13 @@ export class FaceDetectionService {
       
       // Update local storage
       const savedFaces = FaceDetectionService.getFacesFromLocalStorage();
-      savedFaces.push(face);
+      savedFaces.push({ ...face, id, landmarks: undefined });
       FaceDetectionService.saveFaces(savedFaces);
+      
+      return id;
     } catch (error) {
       console.error('Error auto-saving face:', error);
+      return undefined;
     }
   }
   
@@ -339,44 +457,35 @@ export class FaceDetectionService {
    */
   static async createPersonFromFace(faceId: string): Promise<string> {
     try {
+      const { faces, persons, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      
       // First get the face data
-      const { data: face, error: faceError } = await supabase
-        .from('stored_faces')
-        .select('*')
-        .eq('id', faceId)
-        .single();
+      const face = await faces.getById(faceId, { userId });
       
-      if (faceError || !face) {
-        console.error('Error loading face for person creation:', faceError);
+      if (!face) {
+        console.error('Error loading face for person creation:', faceId);
         throw new Error('Could not find face');
       }
       
       // Create a new person
-      const { data: person, error: personError } = await supabase
-        .from('persons')
-        .insert({
-          name: face.name || 'Unknown Person',
-          notes: face.notes,
-          notify_on_recognition: face.notify_on_recognition,
-        })
-        .select()
-        .single();
-      
-      if (personError || !person) {
-        console.error('Error creating person:', personError);
-        throw new Error('Could not create person');
-      }
+      const person = await persons.insert({
+        name: face.name || 'Unknown Person',
+        notes: face.notes,
+        notify_on_recognition: face.notify_on_recognition,
+        user_id: userId,
+      });
       
       // Update the face with the new person_id
-      const { error: updateError } = await supabase
-        .from('stored_faces')
-        .update({ person_id: person.id })
-        .eq('id', faceId);
-      
-      if (updateError) {
-        console.error('Error updating face with person ID:', updateError);
-        throw new Error('Could not link face to person');
-      }
+      await faces.update(faceId, { person_id: person.id }, { userId });
+      DescriptorIndex.setPerson({
+        id: person.id,
+        name: person.name,
+        notes: person.notes,
+        notifyOnRecognition: person.notify_on_recognition,
+        notificationCooldownSeconds: person.notification_cooldown_seconds,
+      });
+      DescriptorIndex.patch(faceId, { personId: person.id });
       
       return person.id;
     } catch (error) {
@@ -390,31 +499,23 @@ export class FaceDetectionService {
    */
   static async addFaceToPerson(faceId: string, personId: string): Promise<boolean> {
     try {
+      const { faces, persons, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      
       // Get the target person data
-      const { data: person, error: personError } = await supabase
-        .from('persons')
-        .select('*')
-        .eq('id', personId)
-        .single();
+      const person = await persons.getById(personId, { userId });
       
-      if (personError || !person) {
-        console.error('Error loading person:', personError);
+      if (!person) {
+        console.error('Error loading person:', personId);
         throw new Error('Could not find person');
       }
       
       // Update the face with the person_id
-      const { error: updateError } = await supabase
-        .from('stored_faces')
-        .update({ 
-          person_id: personId,
-          name: person.name // Keep name in sync with person
-        })
-        .eq('id', faceId);
-      
-      if (updateError) {
-        console.error('Error adding face to person:', updateError);
-        throw new Error('Could not add face to person');
-      }
+      await faces.update(faceId, { 
+        person_id: personId,
+        name: person.name // Keep name in sync with person
+      }, { userId });
+      DescriptorIndex.patch(faceId, { personId, name: person.name });
       
       return true;
     } catch (error) {
@@ -430,47 +531,24 @@ export class FaceDetectionService {
     id: string, 
     type: 'face' | 'person' = 'face', 
     limit: number = 20
-  ): Promise<any[]> {
+  ): Promise<NotificationRow[]> {
     try {
-      let query = supabase
-        .from('recognition_notifications')
-        .select('*')
-        .order('recognized_at', { ascending: false })
-        .limit(limit);
+      const { faces, notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      let faceIds = [id];
       
-      if (type === 'face') {
-        query = query.eq('face_id', id);
-      } else {
+      if (type === 'person') {
         // For person type, we need to get all faces belonging to this person
-        const { data: faces, error: facesError } = await supabase
-          .from('stored_faces')
-          .select('id')
-          .eq('person_id', id);
-        
-        if (facesError || !faces) {
-          console.error('Error getting faces for person:', facesError);
-          return [];
-        }
-        
-        // Extract face IDs
-        const faceIds = faces.map(face => face.id);
+        const personFaces = await faces.list({ personId: id, userId });
+        faceIds = personFaces.map(face => face.id);
         
         if (faceIds.length === 0) {
           return [];
         }
-        
-        // Query for notifications with any of these face IDs
-        query = query.in('face_id', faceIds);
-      }
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        console.error('Error getting recognition history:', error);
-        return [];
       }
       
-      return data || [];
+      // Query for notifications with any of these face IDs
+      return await notifications.list({ faceIds, limit, userId });
     } catch (error) {
       console.error('Error in getRecognitionHistory:', error);
       return [];
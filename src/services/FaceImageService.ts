@@ -0,0 +1,130 @@
+import { getRepositories } from "@/services/storage";
+
+export type ImageFolder = 'faces' | 'notifications';
+
+export interface StoredImage {
+  path: string;
+  thumbnail: string;
+}
+
+// Anything a stored image can be located by, from a face or a notification
+export interface ImageReference {
+  image?: string | null; // Inline data URL (fresh captures and legacy rows)
+  imagePath?: string | null;
+  faceId?: string; // Lets legacy face rows be fetched individually
+}
+
+const THUMBNAIL_SIZE = 64;
+
+/**
+ * Keeps full face images in object storage and small thumbnails in the rows,
+ * and resolves full images on demand for the views that show them.
+ */
+export class FaceImageService {
+  private static urlCache: Map<string, Promise<string | undefined>> = new Map();
+
+  /**
+   * Upload an image, given as a data URL or a blob, and create its thumbnail
+   */
+  static async store(folder: ImageFolder, image: string | Blob): Promise<StoredImage> {
+    const { images, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+    const path = `${userId || 'anonymous'}/${folder}/${crypto.randomUUID()}.jpg`;
+
+    const source = typeof image === 'string' ? image : URL.createObjectURL(image);
+    try {
+      const [blob, thumbnail] = await Promise.all([
+        typeof image === 'string' ? fetch(image).then(response => response.blob()) : image,
+        this.createThumbnail(source),
+      ]);
+
+      await images.upload(path, blob);
+
+      return { path, thumbnail };
+    } finally {
+      if (typeof image !== 'string') URL.revokeObjectURL(source);
+    }
+  }
+
+  /**
+   * Download the full image as a blob, e.g. for exports
+   */
+  static async fetchBlob(reference: ImageReference): Promise<Blob | undefined> {
+    const url = await this.resolve(reference);
+    if (!url) return undefined;
+
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not download image: HTTP ${response.status}`);
+    return response.blob();
+  }
+
+  /**
+   * Store the image when it is an inline data URL, otherwise leave it as is
+   */
+  static async storeIfInline(folder: ImageFolder, image?: string | null): Promise<StoredImage | null> {
+    if (!image || !image.startsWith('data:')) return null;
+    return this.store(folder, image);
+  }
+
+  /**
+   * Resolve a loadable URL for the full image
+   */
+  static resolve(reference: ImageReference): Promise<string | undefined> {
+    if (reference.image) return Promise.resolve(reference.image);
+
+    const key = reference.imagePath || (reference.faceId ? `face:${reference.faceId}` : null);
+    if (!key) return Promise.resolve(undefined);
+
+    let url = this.urlCache.get(key);
+    if (!url) {
+      url = this.fetchUrl(reference).catch(error => {
+        console.error('Error loading face image:', error);
+        this.urlCache.delete(key);
+        return undefined;
+      });
+      this.urlCache.set(key, url);
+    }
+    return url;
+  }
+
+  static async remove(paths: (string | null | undefined)[]): Promise<void> {
+    const existing = paths.filter((path): path is string => !!path);
+    if (existing.length === 0) return;
+
+    try {
+      await getRepositories().images.remove(existing);
+      existing.forEach(path => this.urlCache.delete(path));
+    } catch (error) {
+      // An orphaned image is harmless, so never fail the caller over it
+      console.error('Error removing face images:', error);
+    }
+  }
+
+  private static async fetchUrl(reference: ImageReference): Promise<string | undefined> {
+    const { images, faces, getCurrentUserId } = getRepositories();
+
+    if (reference.imagePath) return images.getUrl(reference.imagePath);
+
+    // Legacy rows keep the full data URL inline, which lists leave out
+    const userId = await getCurrentUserId();
+    const row = await faces.getById(reference.faceId!, { userId });
+    if (row?.image) return row.image;
+    return row?.image_path ? images.getUrl(row.image_path) : undefined;
+  }
+
+  private static createThumbnail(src: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        const scale = THUMBNAIL_SIZE / Math.max(img.width, img.height);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      };
+      img.onerror = () => reject(new Error('Failed to create thumbnail'));
+      img.src = src;
+    });
+  }
+}
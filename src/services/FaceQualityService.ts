@@ -0,0 +1,170 @@
+import * as faceapi from '@vladmandic/face-api';
+import { FaceBox } from './FaceDetectionService';
+
+export type FaceQualityLevel = 'good' | 'warn' | 'reject';
+
+export interface FaceQuality {
+  score: number; // Overall quality (0-1), stored with each face sample
+  level: FaceQualityLevel;
+  sharpness: number; // Variance of the Laplacian over the face region
+  size: number; // Face width in source pixels
+  brightness: number; // Mean luminance (0-255)
+  yaw: number; // Nose offset from the eye midpoint, in eye distances (0 is frontal)
+  pitch: number; // Nose position between eyes and mouth (0 is level)
+  issues: string[];
+}
+
+export type FaceQualitySource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+interface Range {
+  warn: number;
+  reject: number;
+}
+
+// Thresholds below (or, for pose and brightness, beyond) which a sample is flagged
+const THRESHOLDS = {
+  sharpness: { warn: 60, reject: 20 } as Range,
+  size: { warn: 100, reject: 48 } as Range,
+  darkness: { warn: 60, reject: 35 } as Range,
+  glare: { warn: 200, reject: 230 } as Range,
+  yaw: { warn: 0.35, reject: 0.6 } as Range,
+  pitch: { warn: 0.3, reject: 0.5 } as Range,
+};
+
+// Side of the square the face region is resampled to before measuring
+const SAMPLE_SIZE = 96;
+
+/**
+ * Scores how useful a face sample is for recognition, so blurry, tiny,
+ * badly lit or strongly turned faces can be rejected before they are stored.
+ */
+export class FaceQualityService {
+  /**
+   * Measure a detected face in the frame or image it was detected in
+   */
+  static assess(
+    source: FaceQualitySource,
+    box: FaceBox,
+    landmarks?: faceapi.FaceLandmarks68
+  ): FaceQuality {
+    const { sharpness, brightness } = this.measurePixels(source, box);
+    const { yaw, pitch } = this.estimatePose(landmarks);
+    const size = box.width;
+
+    const issues: string[] = [];
+    let level: FaceQualityLevel = 'good';
+
+    const flag = (value: number, range: Range, higherIsWorse: boolean, message: string) => {
+      const exceeds = (limit: number) => higherIsWorse ? value > limit : value < limit;
+      if (exceeds(range.reject)) {
+        level = 'reject';
+        issues.push(message);
+      } else if (exceeds(range.warn)) {
+        if (level === 'good') level = 'warn';
+        issues.push(message);
+      }
+    };
+
+    flag(sharpness, THRESHOLDS.sharpness, false, 'Image is blurry');
+    flag(size, THRESHOLDS.size, false, 'Face is too small');
+    flag(brightness, THRESHOLDS.darkness, false, 'Face is too dark');
+    flag(brightness, THRESHOLDS.glare, true, 'Face is overexposed');
+    flag(Math.abs(yaw), THRESHOLDS.yaw, true, 'Face is turned sideways');
+    flag(Math.abs(pitch), THRESHOLDS.pitch, true, 'Face is tilted up or down');
+
+    // Each factor is 1 when comfortably good and falls to 0 at its reject limit
+    const factor = (value: number, range: Range, higherIsWorse: boolean) => {
+      const span = Math.abs(range.warn - range.reject) * 2;
+      const distance = higherIsWorse ? range.reject - value : value - range.reject;
+      return Math.max(0, Math.min(1, distance / span));
+    };
+
+    const score = [
+      factor(sharpness, THRESHOLDS.sharpness, false),
+      factor(size, THRESHOLDS.size, false),
+      Math.min(
+        factor(brightness, THRESHOLDS.darkness, false),
+        factor(brightness, THRESHOLDS.glare, true)
+      ),
+      factor(Math.abs(yaw), THRESHOLDS.yaw, true),
+      factor(Math.abs(pitch), THRESHOLDS.pitch, true),
+    ].reduce((product, value) => product * (0.5 + value / 2), 1);
+
+    return { score, level, sharpness, size, brightness, yaw, pitch, issues };
+  }
+
+  /**
+   * Summarize quality issues for a toast or status line
+   */
+  static describe(quality: FaceQuality): string {
+    if (quality.issues.length === 0) return `Good quality (${Math.round(quality.score * 100)}%)`;
+    return `${quality.issues.join(', ')} (quality ${Math.round(quality.score * 100)}%)`;
+  }
+
+  /**
+   * Estimate head rotation from the 68 landmarks
+   */
+  static estimatePose(landmarks?: faceapi.FaceLandmarks68): { yaw: number; pitch: number } {
+    if (!landmarks) return { yaw: 0, pitch: 0 };
+
+    const mean = (points: faceapi.Point[]) => ({
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    });
+
+    const leftEye = mean(landmarks.getLeftEye());
+    const rightEye = mean(landmarks.getRightEye());
+    const mouth = mean(landmarks.getMouth());
+    // Point 30 is the tip of the nose
+    const noseTip = landmarks.positions[30];
+
+    const eyeMid = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 };
+    const eyeDistance = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y) || 1;
+    const faceHeight = mouth.y - eyeMid.y || 1;
+
+    return {
+      yaw: (noseTip.x - eyeMid.x) / eyeDistance,
+      // On a level face the nose tip sits roughly 60% of the way from eyes to mouth
+      pitch: (noseTip.y - eyeMid.y) / faceHeight - 0.6,
+    };
+  }
+
+  private static measurePixels(source: FaceQualitySource, box: FaceBox): { sharpness: number; brightness: number } {
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!ctx || box.width <= 0 || box.height <= 0) return { sharpness: 0, brightness: 0 };
+
+    ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+    const gray = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+    let total = 0;
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+      total += gray[i];
+    }
+
+    // Variance of the 4-neighbour Laplacian; low values mean few edges, i.e. blur
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let y = 1; y < SAMPLE_SIZE - 1; y++) {
+      for (let x = 1; x < SAMPLE_SIZE - 1; x++) {
+        const i = y * SAMPLE_SIZE + x;
+        const laplacian = gray[i - 1] + gray[i + 1] + gray[i - SAMPLE_SIZE] + gray[i + SAMPLE_SIZE] - 4 * gray[i];
+        sum += laplacian;
+        sumSquares += laplacian * laplacian;
+        count++;
+      }
+    }
+    const mean = sum / count;
+
+    return {
+      sharpness: sumSquares / count - mean * mean,
+      brightness: total / gray.length,
+    };
+  }
+}
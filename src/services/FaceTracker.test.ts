@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DetectedFace } from './FaceDetectionService';
+import { FaceTracker, TrackedFace } from './FaceTracker';
+
+// Tracks are associated by box overlap here; descriptors are not needed
+vi.mock('@vladmandic/face-api', () => ({
+  euclideanDistance: () => Infinity,
+}));
+
+const detection = (): DetectedFace => ({
+  id: 'detection',
+  timestamp: new Date(),
+  box: { x: 10, y: 10, width: 100, height: 100 },
+});
+
+const sample = (id: string, personId: string): DetectedFace => ({
+  id,
+  personId,
+  name: personId,
+  timestamp: new Date(),
+  similarity: 0.8,
+});
+
+describe('FaceTracker', () => {
+  it('reports a change when a recognized track switches person', () => {
+    const tracker = new FaceTracker();
+    const frames: TrackedFace[] = [];
+
+    for (let i = 0; i < 5; i++) frames.push(tracker.update([detection()], [sample('face-a', 'person-a')])[0]);
+    for (let i = 0; i < 10; i++) frames.push(tracker.update([detection()], [sample('face-b', 'person-b')])[0]);
+
+    const changes = frames.filter(frame => frame.stateChanged);
+    expect(changes.map(frame => frame.personId)).toEqual(['person-a', 'person-b']);
+    expect(changes.every(frame => frame.recognitionState === 'recognized')).toBe(true);
+    expect(frames[frames.length - 1].matchedFaceId).toBe('face-b');
+  });
+});
@@ -0,0 +1,239 @@
+import * as faceapi from '@vladmandic/face-api';
+import { DetectedFace, FaceBox } from './FaceDetectionService';
+
+export type RecognitionState = 'pending' | 'recognized' | 'unknown';
+
+export interface TrackedFace extends DetectedFace {
+  trackId: string;
+  recognitionState: RecognitionState;
+  // Stored face that won the vote, when recognized
+  matchedFaceId?: string;
+  // True on the frame the track settles on a new state or recognized identity
+  stateChanged: boolean;
+}
+
+export interface FaceTrackerOptions {
+  minIoU: number; // Boxes overlapping at least this much belong to the same track
+  maxDescriptorDistance: number; // ...or descriptors at most this far apart
+  maxMissedFrames: number; // Frames a track survives without a detection
+  smoothing: number; // Weight of the newest box in the moving average (0-1]
+  windowSize: number; // Recognition votes kept per track
+  minVotes: number; // Votes needed before a track settles
+  voteRatio: number; // Share of the window a label needs to win
+}
+
+const DEFAULT_OPTIONS: FaceTrackerOptions = {
+  minIoU: 0.3,
+  maxDescriptorDistance: 0.45,
+  maxMissedFrames: 5,
+  smoothing: 0.5,
+  windowSize: 10,
+  minVotes: 5,
+  voteRatio: 0.6,
+};
+
+interface RecognitionVote {
+  label: string | null; // null means no match on that frame
+  match?: DetectedFace;
+}
+
+interface Track {
+  id: string;
+  box: FaceBox;
+  descriptor?: Float32Array;
+  votes: RecognitionVote[];
+  missedFrames: number;
+  state: RecognitionState;
+  match?: DetectedFace;
+}
+
+/**
+ * Associates per-frame detections into tracks with stable IDs, smooths their
+ * boxes and only declares a face recognized or unknown once a sliding window
+ * of per-frame recognition results agrees.
+ */
+export class FaceTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private options: FaceTrackerOptions;
+
+  constructor(options: Partial<FaceTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed one frame of detections together with their per-frame matches
+   */
+  update(faces: DetectedFace[], matches: (DetectedFace | undefined)[]): TrackedFace[] {
+    const assignments = this.associate(faces);
+    const result: TrackedFace[] = [];
+
+    faces.forEach((face, index) => {
+      const box = FaceTracker.getBox(face);
+      let track = assignments.get(index);
+
+      if (!track) {
+        track = {
+          id: `track_${this.nextId++}`,
+          box,
+          votes: [],
+          missedFrames: 0,
+          state: 'pending',
+        };
+        this.tracks.push(track);
+      } else if (box) {
+        track.box = this.smooth(track.box, box);
+      }
+
+      track.missedFrames = 0;
+      if (face.descriptor) track.descriptor = face.descriptor;
+
+      const match = matches[index];
+      track.votes.push({ label: match ? match.personId || match.id : null, match });
+      if (track.votes.length > this.options.windowSize) track.votes.shift();
+
+      // A switch from one recognized identity to another is a change too
+      const previousState = track.state;
+      const previousLabel = FaceTracker.labelOf(track);
+      this.vote(track);
+      const changed = track.state !== previousState || FaceTracker.labelOf(track) !== previousLabel;
+
+      result.push(this.toTrackedFace(face, track, changed));
+    });
+
+    // Age out tracks that were not seen this frame
+    const seen = new Set(assignments.values());
+    this.tracks = this.tracks.filter(track => {
+      if (seen.has(track) || result.some(face => face.trackId === track.id)) return true;
+      track.missedFrames++;
+      return track.missedFrames <= this.options.maxMissedFrames;
+    });
+
+    return result;
+  }
+
+  reset(): void {
+    this.tracks = [];
+  }
+
+  /**
+   * Greedily pair detections with existing tracks, best overlap first
+   */
+  private associate(faces: DetectedFace[]): Map<number, Track> {
+    const candidates: { index: number; track: Track; score: number }[] = [];
+
+    faces.forEach((face, index) => {
+      const box = FaceTracker.getBox(face);
+
+      this.tracks.forEach(track => {
+        const iou = box && track.box ? FaceTracker.iou(box, track.box) : 0;
+        const distance = face.descriptor && track.descriptor
+          ? faceapi.euclideanDistance(face.descriptor, track.descriptor)
+          : Infinity;
+
+        if (iou < this.options.minIoU && distance > this.options.maxDescriptorDistance) return;
+
+        // Overlap dominates; a close descriptor breaks ties and bridges fast motion
+        const score = iou + Math.max(0, 1 - distance / this.options.maxDescriptorDistance) * 0.5;
+        candidates.push({ index, track, score });
+      });
+    });
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assignments = new Map<number, Track>();
+    const usedTracks = new Set<Track>();
+
+    for (const { index, track } of candidates) {
+      if (assignments.has(index) || usedTracks.has(track)) continue;
+      assignments.set(index, track);
+      usedTracks.add(track);
+    }
+
+    return assignments;
+  }
+
+  private vote(track: Track): void {
+    const { minVotes, voteRatio } = this.options;
+    if (track.votes.length < minVotes) return;
+
+    const counts = new Map<string | null, number>();
+    track.votes.forEach(vote => counts.set(vote.label, (counts.get(vote.label) || 0) + 1));
+
+    const [winner, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (count / track.votes.length < voteRatio) return;
+
+    if (winner === null) {
+      track.state = 'unknown';
+      track.match = undefined;
+      return;
+    }
+
+    // Report the winner with its average similarity over the window
+    const winningVotes = track.votes.filter(vote => vote.label === winner);
+    const latest = winningVotes[winningVotes.length - 1].match!;
+    const similarity = winningVotes.reduce((sum, vote) => sum + (vote.match?.similarity || 0), 0) / winningVotes.length;
+
+    track.state = 'recognized';
+    track.match = { ...latest, similarity };
+  }
+
+  private smooth(previous: FaceBox | undefined, next: FaceBox): FaceBox {
+    if (!previous) return next;
+
+    const alpha = this.options.smoothing;
+    return {
+      x: previous.x + (next.x - previous.x) * alpha,
+      y: previous.y + (next.y - previous.y) * alpha,
+      width: previous.width + (next.width - previous.width) * alpha,
+      height: previous.height + (next.height - previous.height) * alpha,
+    };
+  }
+
+  private toTrackedFace(face: DetectedFace, track: Track, stateChanged: boolean): TrackedFace {
+    const base = track.state === 'recognized' && track.match
+      ? { ...track.match, isRecognized: true }
+      : { ...face, isRecognized: false, similarity: undefined };
+
+    return {
+      ...base,
+      // The current frame's measurements always come from the live detection
+      detection: face.detection,
+      descriptor: face.descriptor,
+      landmarks: face.landmarks,
+      expressions: face.expressions,
+      age: face.age,
+      gender: face.gender,
+      timestamp: face.timestamp,
+      box: track.box,
+      id: track.id,
+      trackId: track.id,
+      matchedFaceId: track.state === 'recognized' ? track.match?.id : undefined,
+      recognitionState: track.state,
+      stateChanged,
+    };
+  }
+
+  // Identity a recognized track settled on: the person, or the face when ungrouped
+  private static labelOf(track: Track): string | null {
+    return track.state === 'recognized' && track.match ? track.match.personId || track.match.id : null;
+  }
+
+  private static getBox(face: DetectedFace): FaceBox | undefined {
+    const box = face.box || face.detection?.box;
+    if (!box) return undefined;
+    return { x: box.x, y: box.y, width: box.width, height: box.height };
+  }
+
+  private static iou(a: FaceBox, b: FaceBox): number {
+    const x1 = Math.max(a.x, b.x);
+    const y1 = Math.max(a.y, b.y);
+    const x2 = Math.min(a.x + a.width, b.x + b.width);
+    const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+    const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+    const union = a.width * a.height + b.width * b.height - intersection;
+
+    return union > 0 ? intersection / union : 0;
+  }
+}
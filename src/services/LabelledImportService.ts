@@ -0,0 +1,181 @@
+import { Person, PersonService } from './PersonService';
+import { ImportCandidate, PhotoImportService } from './PhotoImportService';
+import { readZipEntries } from '@/utils/zip';
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|bmp)$/i;
+
+// A photo whose folder names the person in it
+export interface LabelledPhoto {
+  path: string;
+  personName: string;
+  read: () => Promise<Blob>;
+}
+
+export type LabelledFileStatus = 'added' | 'skipped' | 'error';
+
+export interface LabelledFileResult {
+  path: string;
+  personName?: string;
+  status: LabelledFileStatus;
+  message?: string;
+}
+
+export interface LabelledImportProgress {
+  processed: number;
+  total: number;
+  currentPath?: string;
+}
+
+export interface LabelledImportReport {
+  personsCreated: number;
+  personsUpdated: number;
+  facesAdded: number;
+  files: LabelledFileResult[];
+}
+
+const isHidden = (path: string) =>
+  path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const boxArea = (candidate: ImportCandidate) => {
+  const box = candidate.face.detection?.box;
+  return box ? box.width * box.height : 0;
+};
+
+/**
+ * Enrolls people from a folder or ZIP of photos where each subfolder is named
+ * after the person in its photos.
+ */
+export class LabelledImportService {
+  /**
+   * Photos from a directory picked with a folder input
+   */
+  static fromDirectory(files: File[]): { photos: LabelledPhoto[]; skipped: LabelledFileResult[] } {
+    return this.label(files.map(file => ({
+      path: file.webkitRelativePath || file.name,
+      read: () => Promise.resolve(file),
+    })));
+  }
+
+  /**
+   * Photos from a ZIP archive
+   */
+  static async fromZip(zip: File): Promise<{ photos: LabelledPhoto[]; skipped: LabelledFileResult[] }> {
+    const entries = await readZipEntries(zip);
+    return this.label(entries);
+  }
+
+  /**
+   * Create or extend a person per folder and add the face found in each photo
+   */
+  static async importPhotos(
+    photos: LabelledPhoto[],
+    onProgress?: (progress: LabelledImportProgress) => void
+  ): Promise<LabelledImportReport> {
+    const report: LabelledImportReport = { personsCreated: 0, personsUpdated: 0, facesAdded: 0, files: [] };
+
+    // Re-importing a folder adds to the person rather than duplicating them
+    const existing = new Map<string, Person>();
+    (await PersonService.getAllPersons()).forEach(person => existing.set(person.name.trim().toLowerCase(), person));
+
+    const personIds = new Map<string, string>();
+    const updated = new Set<string>();
+
+    for (let i = 0; i < photos.length; i++) {
+      const photo = photos[i];
+      onProgress?.({ processed: i, total: photos.length, currentPath: photo.path });
+
+      const key = photo.personName.trim().toLowerCase();
+      const result = await this.importPhoto(photo, personIds.get(key) ?? existing.get(key)?.id);
+      report.files.push(result.file);
+
+      if (result.personId) {
+        report.facesAdded++;
+        if (result.created) {
+          report.personsCreated++;
+        } else if (!personIds.has(key)) {
+          updated.add(key);
+        }
+        personIds.set(key, result.personId);
+      }
+    }
+
+    report.personsUpdated = updated.size;
+    onProgress?.({ processed: photos.length, total: photos.length });
+    return report;
+  }
+
+  private static async importPhoto(
+    photo: LabelledPhoto,
+    personId: string | undefined
+  ): Promise<{ file: LabelledFileResult; personId?: string; created?: boolean }> {
+    const fail = (message: string) => ({
+      file: { path: photo.path, personName: photo.personName, status: 'error' as const, message },
+    });
+
+    let blob: Blob;
+    try {
+      blob = await photo.read();
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+
+    const detected = await PhotoImportService.detectFaces(blob, photo.path);
+    if (detected.error) return fail(detected.error);
+    if (detected.candidates.length === 0) {
+      return fail(detected.rejectedCount > 0 ? 'Face quality too low' : 'No face found');
+    }
+
+    // Portraits may catch someone in the background; the largest face is the subject
+    const [subject] = [...detected.candidates].sort((a, b) => boxArea(b) - boxArea(a));
+    const face = { ...subject.face, name: photo.personName };
+
+    const savedId = personId
+      ? await PersonService.addFaceToPerson(personId, face)
+      : await PersonService.createPersonWithFace(face);
+    if (!savedId) return fail('Could not save face');
+
+    const message = detected.candidates.length > 1
+      ? `${detected.candidates.length} faces found; added the largest`
+      : undefined;
+
+    return {
+      file: { path: photo.path, personName: photo.personName, status: 'added', message },
+      personId: personId ?? savedId,
+      created: !personId,
+    };
+  }
+
+  // Each top-level folder names a person. A single folder wrapping the person
+  // folders (a picked directory, or a zipped one) is looked through.
+  private static label(
+    entries: { path: string; read: () => Promise<Blob> }[]
+  ): { photos: LabelledPhoto[]; skipped: LabelledFileResult[] } {
+    const visible = entries
+      .filter(entry => !isHidden(entry.path))
+      .map(entry => ({ ...entry, parts: entry.path.split('/').filter(Boolean) }));
+
+    const [first] = visible;
+    const hasWrapper = !!first && first.parts.length > 1 &&
+      visible.every(entry => entry.parts.length > 1 && entry.parts[0] === first.parts[0]) &&
+      visible.some(entry => entry.parts.length > 2);
+    const depth = hasWrapper ? 1 : 0;
+
+    const photos: LabelledPhoto[] = [];
+    const skipped: LabelledFileResult[] = [];
+
+    for (const { path, parts, read } of visible) {
+      if (!IMAGE_EXTENSIONS.test(path)) {
+        skipped.push({ path, status: 'skipped', message: 'Not an image' });
+        continue;
+      }
+      if (parts.length < depth + 2) {
+        skipped.push({ path, status: 'skipped', message: 'Not inside a person folder' });
+        continue;
+      }
+
+      photos.push({ path, personName: parts[depth], read });
+    }
+
+    return { photos, skipped };
+  }
+}
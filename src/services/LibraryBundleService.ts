@@ -0,0 +1,422 @@
+import { getRepositories, PersonRow } from "@/services/storage";
+import { EventClipService } from './EventClipService';
+import { FaceDetectionService } from './FaceDetectionService';
+import { FaceImageService, ImageReference } from './FaceImageService';
+import { createZip, readZipEntries, ZipEntry } from '@/utils/zip';
+
+export const BUNDLE_FORMAT = 'face-finder-library';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface BundlePerson {
+  id: string;
+  name: string;
+  notes: string | null;
+  notify_on_recognition: boolean | null;
+  notification_cooldown_seconds?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BundleFace {
+  id: string;
+  person_id: string | null;
+  name: string | null;
+  notes: string | null;
+  descriptor: number[];
+  age: number | null;
+  gender: string | null;
+  quality_score: number | null;
+  notify_on_recognition: boolean | null;
+  created_at: string | null;
+  last_seen: string | null;
+  image: string | null; // Path of the full image inside the bundle
+  thumbnail: string | null;
+}
+
+export interface BundleNotification {
+  id: string;
+  face_id: string | null;
+  face_name: string;
+  notes: string | null;
+  is_read: boolean;
+  recognized_at: string;
+  camera_id?: string | null;
+  camera_label?: string | null;
+  image: string | null; // Path of the full image inside the bundle
+  thumbnail: string | null;
+  clip?: string | null; // Path of the event clip inside the bundle
+  kind?: string;
+  resolution?: string | null;
+  descriptor?: number[] | null;
+}
+
+// Bumped only for changes older importers cannot read. Optional fields, which
+// older importers skip and newer ones default, are added without a bump.
+// Older bundles must keep importing.
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  persons: BundlePerson[];
+  faces: BundleFace[];
+  notifications: BundleNotification[];
+}
+
+export type PersonMatchBy = 'id' | 'name';
+
+// What to do with a bundle person that already exists in the account
+export type PersonConflictMode = 'merge' | 'skip' | 'copy';
+
+export interface BundleImportOptions {
+  matchBy: PersonMatchBy;
+  onConflict: PersonConflictMode;
+}
+
+export interface BundleExportResult {
+  bundle: Blob;
+  persons: number;
+  faces: number;
+  notifications: number;
+  missingImages: number;
+}
+
+export interface BundleImportReport {
+  personsCreated: number;
+  personsMerged: number;
+  personsSkipped: number;
+  facesImported: number;
+  facesSkipped: number;
+  facesInvalid: number; // Faces without a descriptor, which could never be recognized
+  notificationsImported: number;
+  errors: string[];
+}
+
+// Identical descriptors mean the same sample was imported before
+const descriptorKey = (descriptor: number[]) => descriptor.map(value => value.toFixed(5)).join(',');
+
+const notificationKey = (notification: { face_name: string; recognized_at: string }) =>
+  `${notification.face_name}|${new Date(notification.recognized_at).toISOString()}`;
+
+/**
+ * Exports the face library (persons, faces, notifications and their images) as
+ * a versioned ZIP bundle and merges such bundles into the current account.
+ */
+export class LibraryBundleService {
+  static async exportLibrary(onProgress?: (done: number, total: number) => void): Promise<BundleExportResult> {
+    const { persons, faces, notifications, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+
+    const [personRows, faceRows, notificationRows] = await Promise.all([
+      persons.list({ userId }),
+      faces.list({ userId }),
+      notifications.list({ userId }),
+    ]);
+
+    const files: { path: string; data: Blob | string }[] = [];
+    const total = faceRows.length + notificationRows.length;
+    let done = 0;
+    let missingImages = 0;
+
+    const addImage = async (folder: string, id: string, reference: ImageReference) => {
+      try {
+        const blob = await FaceImageService.fetchBlob(reference);
+        if (!blob) return null;
+
+        const path = `images/${folder}/${id}.jpg`;
+        files.push({ path, data: blob });
+        return path;
+      } catch (error) {
+        console.error(`Error exporting image for ${id}:`, error);
+        missingImages++;
+        return null;
+      } finally {
+        onProgress?.(++done, total);
+      }
+    };
+
+    const bundleFaces: BundleFace[] = [];
+    for (const row of faceRows) {
+      bundleFaces.push({
+        id: row.id,
+        person_id: row.person_id,
+        name: row.name,
+        notes: row.notes,
+        descriptor: row.descriptor,
+        age: row.age,
+        gender: row.gender,
+        quality_score: row.quality_score,
+        notify_on_recognition: row.notify_on_recognition,
+        created_at: row.created_at,
+        last_seen: row.last_seen,
+        // Lists leave out inline images, so legacy rows are fetched by ID
+        image: await addImage('faces', row.id, { imagePath: row.image_path, faceId: row.id }),
+        thumbnail: row.thumbnail,
+      });
+    }
+
+    const addClip = async (id: string, clipPath: string | null) => {
+      if (!clipPath) return null;
+      try {
+        const path = `clips/${id}.${clipPath.split('.').pop()}`;
+        files.push({ path, data: await EventClipService.fetchBlob(clipPath) });
+        return path;
+      } catch (error) {
+        console.error(`Error exporting clip for ${id}:`, error);
+        return null;
+      }
+    };
+
+    const bundleNotifications: BundleNotification[] = [];
+    for (const row of notificationRows) {
+      bundleNotifications.push({
+        id: row.id,
+        face_id: row.face_id,
+        face_name: row.face_name,
+        notes: row.notes,
+        is_read: row.is_read,
+        recognized_at: row.recognized_at,
+        camera_id: row.camera_id,
+        camera_label: row.camera_label,
+        image: await addImage('notifications', row.id, { image: row.image, imagePath: row.image_path }),
+        thumbnail: row.thumbnail,
+        clip: await addClip(row.id, row.clip_path),
+        kind: row.kind,
+        resolution: row.resolution,
+        descriptor: row.descriptor,
+      });
+    }
+
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      persons: personRows.map(this.toBundlePerson),
+      faces: bundleFaces,
+      notifications: bundleNotifications,
+    };
+
+    // The manifest goes first so importers can stop early on foreign files
+    files.unshift({ path: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+
+    return {
+      bundle: await createZip(files),
+      persons: personRows.length,
+      faces: faceRows.length,
+      notifications: notificationRows.length,
+      missingImages,
+    };
+  }
+
+  /**
+   * Read and validate a bundle's manifest without importing anything
+   */
+  static async readBundle(file: Blob): Promise<{ manifest: BundleManifest; entries: Map<string, ZipEntry> }> {
+    const entries = new Map((await readZipEntries(file)).map(entry => [entry.path, entry]));
+    const manifestEntry = entries.get(MANIFEST_FILE);
+    if (!manifestEntry) throw new Error('Not a face library export: manifest.json is missing');
+
+    const manifest = JSON.parse(await (await manifestEntry.read()).text()) as BundleManifest;
+    if (manifest.format !== BUNDLE_FORMAT) {
+      throw new Error('Not a face library export');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+      throw new Error(`This export was made by a newer version of the app (format ${manifest.version})`);
+    }
+
+    return { manifest, entries };
+  }
+
+  /**
+   * Merge a bundle into the current account. New IDs are always issued, so a
+   * bundle can be imported into any account; samples and notifications that
+   * are already present are skipped.
+   */
+  static async importLibrary(
+    file: Blob,
+    options: BundleImportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<BundleImportReport> {
+    const { manifest, entries } = await this.readBundle(file);
+    const { persons, faces, notifications, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+
+    const report: BundleImportReport = {
+      personsCreated: 0,
+      personsMerged: 0,
+      personsSkipped: 0,
+      facesImported: 0,
+      facesSkipped: 0,
+      facesInvalid: 0,
+      notificationsImported: 0,
+      errors: [],
+    };
+
+    const [existingPersons, existingFaces, existingNotifications] = await Promise.all([
+      persons.list({ userId }),
+      faces.list({ userId }),
+      notifications.list({ userId }),
+    ]);
+
+    // Bundle person ID -> account person ID, or null when the person is skipped
+    const personIds = new Map<string, string | null>();
+    for (const person of manifest.persons) {
+      try {
+        const match = this.findExistingPerson(person, existingPersons, options.matchBy);
+
+        if (match && options.onConflict === 'skip') {
+          personIds.set(person.id, null);
+          report.personsSkipped++;
+        } else if (match && options.onConflict === 'merge') {
+          personIds.set(person.id, match.id);
+          report.personsMerged++;
+        } else {
+          const row = await persons.insert({
+            name: person.name,
+            notes: person.notes,
+            notify_on_recognition: person.notify_on_recognition,
+            notification_cooldown_seconds: person.notification_cooldown_seconds ?? null,
+            user_id: userId,
+          });
+          personIds.set(person.id, row.id);
+          report.personsCreated++;
+        }
+      } catch (error) {
+        console.error(`Error importing person ${person.name}:`, error);
+        personIds.set(person.id, null);
+        report.errors.push(`Person "${person.name}": ${(error as Error).message}`);
+      }
+    }
+
+    const knownDescriptors = new Set(existingFaces
+      .filter(face => face.descriptor)
+      .map(face => descriptorKey(face.descriptor)));
+    // Bundle face ID -> account face ID, for linking notifications
+    const faceIds = new Map<string, string>();
+    const total = manifest.faces.length + manifest.notifications.length;
+    let done = 0;
+
+    for (const face of manifest.faces) {
+      onProgress?.(done++, total);
+
+      if (!Array.isArray(face.descriptor) || face.descriptor.length === 0) {
+        report.facesInvalid++;
+        continue;
+      }
+
+      const personId = face.person_id ? personIds.get(face.person_id) : null;
+      const key = descriptorKey(face.descriptor);
+      if ((face.person_id && personId === null) || knownDescriptors.has(key)) {
+        report.facesSkipped++;
+        continue;
+      }
+
+      try {
+        const stored = await this.storeImage('faces', face.image, entries);
+        const row = await faces.insert({
+          name: face.name,
+          notes: face.notes,
+          descriptor: face.descriptor,
+          age: face.age,
+          gender: face.gender,
+          quality_score: face.quality_score,
+          notify_on_recognition: face.notify_on_recognition,
+          created_at: face.created_at,
+          last_seen: face.last_seen,
+          person_id: personId ?? null,
+          image_path: stored?.path ?? null,
+          thumbnail: stored?.thumbnail ?? face.thumbnail,
+          user_id: userId,
+        });
+        faceIds.set(face.id, row.id);
+        knownDescriptors.add(key);
+        report.facesImported++;
+      } catch (error) {
+        console.error(`Error importing face ${face.id}:`, error);
+        report.errors.push(`Face "${face.name || face.id}": ${(error as Error).message}`);
+      }
+    }
+
+    const knownNotifications = new Set(existingNotifications.map(notificationKey));
+    for (const notification of manifest.notifications) {
+      onProgress?.(done++, total);
+      if (knownNotifications.has(notificationKey(notification))) continue;
+
+      try {
+        const stored = await this.storeImage('notifications', notification.image, entries);
+        const clipPath = await this.storeClip(notification.clip ?? null, entries);
+        await notifications.insert({
+          face_id: notification.face_id ? faceIds.get(notification.face_id) ?? null : null,
+          face_name: notification.face_name,
+          notes: notification.notes,
+          is_read: notification.is_read,
+          recognized_at: notification.recognized_at,
+          camera_id: notification.camera_id ?? null,
+          camera_label: notification.camera_label ?? null,
+          image_path: stored?.path ?? null,
+          thumbnail: stored?.thumbnail ?? notification.thumbnail,
+          clip_path: clipPath,
+          kind: notification.kind ?? 'recognition',
+          resolution: notification.resolution ?? null,
+          descriptor: notification.descriptor ?? null,
+          user_id: userId,
+        });
+        report.notificationsImported++;
+      } catch (error) {
+        console.error(`Error importing notification ${notification.id}:`, error);
+        report.errors.push(`Notification for "${notification.face_name}": ${(error as Error).message}`);
+      }
+    }
+
+    onProgress?.(total, total);
+
+    // Imported faces and persons are recognized straight away
+    await FaceDetectionService.reloadDescriptorIndex();
+
+    return report;
+  }
+
+  private static findExistingPerson(
+    person: BundlePerson,
+    existing: PersonRow[],
+    matchBy: PersonMatchBy
+  ): PersonRow | undefined {
+    if (matchBy === 'id') return existing.find(row => row.id === person.id);
+
+    const name = person.name.trim().toLowerCase();
+    return existing.find(row => row.name.trim().toLowerCase() === name);
+  }
+
+  private static async storeImage(
+    folder: 'faces' | 'notifications',
+    path: string | null,
+    entries: Map<string, ZipEntry>
+  ) {
+    const entry = path ? entries.get(path) : undefined;
+    if (!entry) return null;
+
+    return FaceImageService.store(folder, await entry.read());
+  }
+
+  private static async storeClip(path: string | null, entries: Map<string, ZipEntry>) {
+    const entry = path ? entries.get(path) : undefined;
+    if (!entry) return null;
+
+    // Zip entries carry no content type, so restore it from the extension
+    const type = path!.endsWith('.mp4') ? 'video/mp4' : 'video/webm';
+    return EventClipService.store(new Blob([await entry.read()], { type }));
+  }
+
+  private static toBundlePerson(row: PersonRow): BundlePerson {
+    return {
+      id: row.id,
+      name: row.name,
+      notes: row.notes,
+      notify_on_recognition: row.notify_on_recognition,
+      notification_cooldown_seconds: row.notification_cooldown_seconds,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,334 @@
+import * as faceapi from '@vladmandic/face-api';
+import type { ModelName } from './DetectionPipeline';
+
+// Kept free of DOM and app state so the detection worker shares the same cache
+
+export const MODEL_URL = '/models';
+
+const CACHE_NAME = 'face-models-v1';
+const INTEGRITY_FILE = 'integrity.json';
+
+// Weight file prefix of each network, as published with face-api
+export const MODEL_FILES: Record<ModelName, string> = {
+  tinyFaceDetector: 'tiny_face_detector_model',
+  ssdMobilenetv1: 'ssd_mobilenetv1_model',
+  faceLandmark68Net: 'face_landmark_68_model',
+  faceRecognitionNet: 'face_recognition_model',
+  faceExpressionNet: 'face_expression_model',
+  ageGenderNet: 'age_gender_model',
+};
+
+export type ModelLoadStatus = 'pending' | 'downloading' | 'loaded' | 'error';
+
+export interface ModelProgress {
+  model: ModelName;
+  status: ModelLoadStatus;
+  loadedBytes: number;
+  totalBytes?: number; // Unknown without an integrity manifest or Content-Length
+  fromCache: boolean;
+}
+
+// SHA-256 and size of every file under /models, published by the build
+interface IntegrityManifest {
+  files: Record<string, { sha256: string; size: number }>;
+}
+
+type WeightsManifest = faceapi.tf.io.WeightsManifestConfig;
+
+export class ModelLoadError extends Error {
+  constructor(public readonly model: ModelName, message: string) {
+    super(message);
+    this.name = 'ModelLoadError';
+  }
+}
+
+/**
+ * A weight file the network needs is not served under the model URL
+ */
+export class ModelMissingError extends ModelLoadError {
+  constructor(model: ModelName, public readonly url: string) {
+    super(model, `Model file for ${model} is missing: ${url}`);
+    this.name = 'ModelMissingError';
+  }
+}
+
+/**
+ * A weight file does not match the hash in the integrity manifest
+ */
+export class ModelIntegrityError extends ModelLoadError {
+  constructor(model: ModelName, public readonly file: string) {
+    super(model, `Model file for ${model} failed its integrity check: ${file}`);
+    this.name = 'ModelIntegrityError';
+  }
+}
+
+/**
+ * Loads face-api networks from the app's own /models folder only, keeping the
+ * weights in Cache Storage (or IndexedDB where that is unavailable) so later
+ * sessions work offline, and checking every file against integrity.json.
+ */
+export class ModelLoadingService {
+  private static integrity: Map<string, Promise<IntegrityManifest | null>> = new Map();
+  private static loading: Map<ModelName, Promise<void>> = new Map();
+
+  static isLoaded(model: ModelName): boolean {
+    return faceapi.nets[model].isLoaded;
+  }
+
+  /**
+   * Load one network unless it is loaded already; concurrent calls share one load
+   */
+  static loadModel(
+    model: ModelName,
+    modelUrl: string = MODEL_URL,
+    onProgress?: (progress: ModelProgress) => void
+  ): Promise<void> {
+    if (this.isLoaded(model)) {
+      onProgress?.({ model, status: 'loaded', loadedBytes: 0, fromCache: true });
+      return Promise.resolve();
+    }
+
+    let load = this.loading.get(model);
+    if (!load) {
+      load = this.fetchAndLoad(model, modelUrl.replace(/\/+$/, ''), onProgress)
+        .catch(error => {
+          onProgress?.({ model, status: 'error', loadedBytes: 0, fromCache: false });
+          throw error;
+        })
+        .finally(() => this.loading.delete(model));
+      this.loading.set(model, load);
+    }
+    return load;
+  }
+
+  /**
+   * Drop every cached weight file, e.g. after replacing the models on the server
+   */
+  static async clearCache(): Promise<void> {
+    this.integrity.clear();
+    if (typeof caches !== 'undefined') {
+      await caches.delete(CACHE_NAME);
+    } else {
+      await ModelFileStore.clear();
+    }
+  }
+
+  private static async fetchAndLoad(
+    model: ModelName,
+    baseUrl: string,
+    onProgress?: (progress: ModelProgress) => void
+  ): Promise<void> {
+    const integrity = await this.getIntegrity(baseUrl);
+    const manifestName = `${MODEL_FILES[model]}-weights_manifest.json`;
+    const manifestFile = await this.getFile(model, baseUrl, manifestName, integrity);
+    const manifest: WeightsManifest = JSON.parse(new TextDecoder().decode(manifestFile.data));
+
+    const shardNames = manifest.flatMap(group => group.paths);
+    const totalBytes = integrity
+      ? shardNames.reduce((sum, name) => sum + (integrity.files[name]?.size ?? 0), 0)
+      : undefined;
+    let loadedBytes = 0;
+    let fromCache = true;
+
+    onProgress?.({ model, status: 'downloading', loadedBytes, totalBytes, fromCache });
+
+    const weightMap: faceapi.tf.NamedTensorMap = {};
+    for (const group of manifest) {
+      const shards: ArrayBuffer[] = [];
+      for (const name of group.paths) {
+        const shard = await this.getFile(model, baseUrl, name, integrity, bytes => {
+          onProgress?.({ model, status: 'downloading', loadedBytes: loadedBytes + bytes, totalBytes, fromCache: false });
+        });
+        loadedBytes += shard.data.byteLength;
+        fromCache = fromCache && shard.fromCache;
+        shards.push(shard.data);
+      }
+      Object.assign(weightMap, faceapi.tf.io.decodeWeights(concatBuffers(shards), group.weights));
+    }
+
+    faceapi.nets[model].loadFromWeightMap(weightMap);
+    onProgress?.({ model, status: 'loaded', loadedBytes, totalBytes: totalBytes ?? loadedBytes, fromCache });
+  }
+
+  /**
+   * Read a file from the cache, or download, verify and cache it
+   */
+  private static async getFile(
+    model: ModelName,
+    baseUrl: string,
+    name: string,
+    integrity: IntegrityManifest | null,
+    onBytes?: (bytes: number) => void
+  ): Promise<{ data: ArrayBuffer; fromCache: boolean }> {
+    const url = `${baseUrl}/${name}`;
+
+    const cached = await readCache(url);
+    if (cached && await this.verify(name, cached, integrity)) {
+      return { data: cached, fromCache: true };
+    }
+
+    const response = await fetch(url, { cache: 'no-cache' }).catch(error => {
+      throw new ModelLoadError(model, `Could not download ${url}: ${(error as Error).message}`);
+    });
+    // Dev servers answer unknown paths with the app's index.html
+    if (response.status === 404 || response.headers.get('Content-Type')?.includes('text/html')) {
+      throw new ModelMissingError(model, url);
+    }
+    if (!response.ok) {
+      throw new ModelLoadError(model, `Could not download ${url}: HTTP ${response.status}`);
+    }
+
+    const data = await readWithProgress(response, onBytes);
+    if (!await this.verify(name, data, integrity)) {
+      throw new ModelIntegrityError(model, name);
+    }
+
+    await writeCache(url, data);
+    return { data, fromCache: false };
+  }
+
+  private static async verify(name: string, data: ArrayBuffer, integrity: IntegrityManifest | null): Promise<boolean> {
+    if (!integrity) return true;
+
+    const expected = integrity.files[name];
+    if (!expected || expected.size !== data.byteLength) return false;
+
+    // Hashing needs a secure context; sizes still catch truncated downloads
+    if (typeof crypto === 'undefined' || !crypto.subtle) return true;
+
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return hex === expected.sha256;
+  }
+
+  /**
+   * Fetch integrity.json once per session, using the cached copy when the server is unreachable
+   */
+  private static getIntegrity(baseUrl: string): Promise<IntegrityManifest | null> {
+    let integrity = this.integrity.get(baseUrl);
+    if (!integrity) {
+      integrity = this.fetchIntegrity(`${baseUrl}/${INTEGRITY_FILE}`);
+      this.integrity.set(baseUrl, integrity);
+    }
+    return integrity;
+  }
+
+  private static async fetchIntegrity(url: string): Promise<IntegrityManifest | null> {
+    let data: ArrayBuffer | null = null;
+
+    try {
+      const response = await fetch(url, { cache: 'no-cache' });
+      if (response.ok && !response.headers.get('Content-Type')?.includes('text/html')) {
+        data = await response.arrayBuffer();
+        await writeCache(url, data);
+      }
+    } catch (error) {
+      console.warn('Could not fetch model integrity manifest, using the cached copy:', error);
+      data = await readCache(url);
+    }
+
+    if (!data) {
+      console.warn(`No ${INTEGRITY_FILE} under the model URL; model files will not be verified`);
+      return null;
+    }
+    return JSON.parse(new TextDecoder().decode(data)) as IntegrityManifest;
+  }
+}
+
+const concatBuffers = (buffers: ArrayBuffer[]): ArrayBuffer => {
+  if (buffers.length === 1) return buffers[0];
+
+  const result = new Uint8Array(buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0));
+  let offset = 0;
+  for (const buffer of buffers) {
+    result.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  }
+  return result.buffer;
+};
+
+const readWithProgress = async (response: Response, onBytes?: (bytes: number) => void): Promise<ArrayBuffer> => {
+  if (!response.body || !onBytes) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: ArrayBuffer[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value.slice().buffer);
+    received += value.byteLength;
+    onBytes(received);
+  }
+  return concatBuffers(chunks);
+};
+
+// Minimal IndexedDB key-value store for model files
+class ModelFileStore {
+  private static database: Promise<IDBDatabase> | null = null;
+
+  static async get(url: string): Promise<ArrayBuffer | null> {
+    const data = await this.request<ArrayBuffer | undefined>('readonly', store => store.get(url));
+    return data ?? null;
+  }
+
+  static async put(url: string, data: ArrayBuffer): Promise<void> {
+    await this.request('readwrite', store => store.put(data, url));
+  }
+
+  static async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(CACHE_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('files');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private static async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction('files', mode).objectStore('files'));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Cache Storage needs a secure context, so plain-http deployments fall back to IndexedDB
+const readCache = async (url: string): Promise<ArrayBuffer | null> => {
+  try {
+    if (typeof caches !== 'undefined') {
+      const response = await (await caches.open(CACHE_NAME)).match(url);
+      return response ? response.arrayBuffer() : null;
+    }
+    return await ModelFileStore.get(url);
+  } catch (error) {
+    console.warn('Could not read cached model file:', error);
+    return null;
+  }
+};
+
+const writeCache = async (url: string, data: ArrayBuffer): Promise<void> => {
+  try {
+    if (typeof caches !== 'undefined') {
+      await (await caches.open(CACHE_NAME)).put(url, new Response(data));
+    } else {
+      await ModelFileStore.put(url, data);
+    }
+  } catch (error) {
+    // A full or unavailable cache only costs a download next time
+    console.warn('Could not cache model file:', error);
+  }
+};
@@ -0,0 +1,168 @@
+// Who a rule applies to
+export type RuleSubject = 'persons' | 'any_known' | 'any_unknown';
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  subject: RuleSubject;
+  personIds: string[]; // Persons the rule covers when the subject is 'persons'
+  startTime: string | null; // "HH:MM"; a window ending before it starts runs past midnight
+  endTime: string | null;
+  weekdays: number[]; // 0 = Sunday; empty means every day
+  cameraIds: string[]; // Empty means any camera
+  minConfidence: number; // Minimum match similarity (0-1); unknown faces have none
+}
+
+// A recognition or unknown-face event, as the rules see it
+export interface NotificationEvent {
+  unknown: boolean;
+  personId?: string; // Only grouped faces can match a 'persons' rule
+  confidence?: number;
+  cameraId?: string;
+  notifyOnRecognition?: boolean; // The person's own flag, which decides while no rules exist
+  at?: Date;
+}
+
+export const RULE_SUBJECTS: { value: RuleSubject; label: string }[] = [
+  { value: 'persons', label: 'Selected people' },
+  { value: 'any_known', label: 'Anyone recognized' },
+  { value: 'any_unknown', label: 'Any unknown face' },
+];
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class NotificationRulesService {
+  private static rules: NotificationRule[] = [];
+  private static listeners: Set<(rules: NotificationRule[]) => void> = new Set();
+
+  static getRules(): NotificationRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Apply rules loaded from the user's profile row
+   */
+  static applyProfileRules(saved: unknown): void {
+    this.setRules(Array.isArray(saved) ? saved : []);
+  }
+
+  /**
+   * Update rules in memory; persisting them to the profile is up to the caller
+   */
+  static updateRules(rules: NotificationRule[]): NotificationRule[] {
+    this.setRules(rules);
+    return this.rules;
+  }
+
+  /**
+   * Subscribe to rule changes; returns an unsubscribe function
+   */
+  static subscribe(listener: (rules: NotificationRule[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static createRule(): NotificationRule {
+    return {
+      id: crypto.randomUUID(),
+      name: 'New rule',
+      enabled: true,
+      subject: 'any_known',
+      personIds: [],
+      startTime: null,
+      endTime: null,
+      weekdays: [],
+      cameraIds: [],
+      minConfidence: 0,
+    };
+  }
+
+  /**
+   * Whether an event should be notified. Without any rules the person's
+   * "notify when recognized" flag decides and unknown faces always notify;
+   * once rules exist, an event notifies only when an enabled rule matches.
+   */
+  static shouldNotify(event: NotificationEvent): boolean {
+    if (this.rules.length === 0) {
+      return event.unknown || !!event.notifyOnRecognition;
+    }
+
+    return this.rules.some(rule => rule.enabled && this.matches(rule, event));
+  }
+
+  /**
+   * Whether a single rule covers an event
+   */
+  static matches(rule: NotificationRule, event: NotificationEvent): boolean {
+    const at = event.at ?? new Date();
+
+    switch (rule.subject) {
+      case 'any_unknown':
+        if (!event.unknown) return false;
+        break;
+      case 'any_known':
+        if (event.unknown) return false;
+        break;
+      case 'persons':
+        if (event.unknown || !event.personId || !rule.personIds.includes(event.personId)) return false;
+        break;
+    }
+
+    if (!event.unknown && (event.confidence ?? 0) < rule.minConfidence) return false;
+    if (rule.weekdays.length > 0 && !rule.weekdays.includes(at.getDay())) return false;
+    if (rule.cameraIds.length > 0 && (!event.cameraId || !rule.cameraIds.includes(event.cameraId))) return false;
+
+    return this.inTimeWindow(rule, at);
+  }
+
+  /**
+   * Drop malformed fields so saved rules always evaluate predictably
+   */
+  static normalize(rule: NotificationRule): NotificationRule {
+    const time = (value: unknown) => typeof value === 'string' && TIME_PATTERN.test(value) ? value : null;
+    const ids = (value: unknown) => Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+    const defaults = this.createRule();
+
+    return {
+      id: typeof rule.id === 'string' && rule.id ? rule.id : defaults.id,
+      name: typeof rule.name === 'string' && rule.name.trim() ? rule.name.trim() : defaults.name,
+      enabled: rule.enabled !== false,
+      subject: RULE_SUBJECTS.some(subject => subject.value === rule.subject) ? rule.subject : defaults.subject,
+      personIds: ids(rule.personIds),
+      startTime: time(rule.startTime),
+      endTime: time(rule.endTime),
+      weekdays: Array.isArray(rule.weekdays)
+        ? Array.from(new Set(rule.weekdays.filter(day => Number.isInteger(day) && day >= 0 && day <= 6))).sort((a, b) => a - b)
+        : [],
+      cameraIds: ids(rule.cameraIds),
+      minConfidence: Number.isFinite(rule.minConfidence) ? Math.min(1, Math.max(0, rule.minConfidence)) : 0,
+    };
+  }
+
+  private static inTimeWindow(rule: NotificationRule, at: Date): boolean {
+    if (!rule.startTime || !rule.endTime || rule.startTime === rule.endTime) return true;
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const now = at.getHours() * 60 + at.getMinutes();
+    const start = toMinutes(rule.startTime);
+    const end = toMinutes(rule.endTime);
+
+    // e.g. 22:00-06:00 covers the night
+    return start <= end
+      ? now >= start && now < end
+      : now >= start || now < end;
+  }
+
+  private static setRules(rules: NotificationRule[]): void {
+    this.rules = rules.map(rule => this.normalize(rule));
+    this.listeners.forEach(listener => listener(this.rules));
+  }
+}
@@ -1,33 +1,69 @@
 
-import { supabase } from "@/integrations/supabase/client";
-import { RealtimeChannel } from "@supabase/supabase-js";
+import { getRepositories } from "@/services/storage";
+import { FaceImageService } from "./FaceImageService";
+import { EventClipService } from "./EventClipService";
+import { WebhookService } from "./WebhookService";
+
+// 'unknown_alert' notifications wait for the user to enroll or dismiss the face
+export type NotificationKind = 'recognition' | 'unknown_alert';
+export type NotificationResolution = 'enrolled' | 'dismissed';
 
 export interface FaceRecognitionNotification {
   id: string;
   face_id: string | null;
   face_name: string;
   recognized_at: string;
-  image: string | null;
+  image: string | null; // Inline data URL on notifications saved before image storage
+  image_path: string | null;
+  thumbnail: string | null;
   notes: string | null;
   is_read: boolean;
+  camera_id: string | null;
+  camera_label: string | null; // Name of the camera feed at the time, e.g. "Front door"
+  clip_path: string | null; // Video clip around the event, attached once recorded
+  kind: NotificationKind;
+  resolution: NotificationResolution | null; // How an unknown alert was handled
+  descriptor: number[] | null; // Face descriptor of an unknown alert, for enrolling it
+}
+
+// The camera a recognition event came from
+export interface RecognitionCamera {
+  id: string;
+  label: string;
+}
+
+// Optional context of a recognition event
+export interface RecognitionEventDetails {
+  personId?: string; // Cooldowns apply per person, across all of their samples
+  cooldownSeconds?: number | null; // Person's override of the global cooldown
+  confidence?: number; // Match similarity (0-1)
+  unknown?: boolean; // A face nobody has identified yet
+  kind?: NotificationKind;
+  descriptor?: Float32Array; // Stored with unknown alerts so they can be enrolled
+  camera?: RecognitionCamera;
+  captureClip?: () => Promise<Blob | null>; // Only called when the notification is sent
 }
 
 export interface NotificationSettings {
   enabled: boolean;
   cooldownPeriod: number; // milliseconds
+  alertOnUnknown: boolean; // Alert when a face stays unrecognized on camera
+  unknownAlertSeconds: number;
 }
 
 export class NotificationsService {
-  private static channel: RealtimeChannel | null = null;
-  // Track recently recognized faces to prevent spam (face_id -> timestamp)
-  private static recentlyNotifiedFaces: Map<string, number> = new Map();
-  // How long to wait before sending another notification for the same face (ms)
+  private static unsubscribeChannel: (() => void) | null = null;
+  // Track recently notified persons to prevent spam (person or face ID -> end of cooldown)
+  private static cooldowns: Map<string, number> = new Map();
+  // How long to wait before sending another notification for the same person (ms)
   private static NOTIFICATION_COOLDOWN = 60000; // 1 minute
   
   // Allow users to customize notification settings globally
   private static settings: NotificationSettings = {
     enabled: true,
-    cooldownPeriod: 60000 // Default 1 minute
+    cooldownPeriod: 60000, // Default 1 minute
+    alertOnUnknown: false,
+    unknownAlertSeconds: 10
   };
 
   /**
@@ -61,13 +97,15 @@ export class NotificationsService {
   }
 
   /**
-   * Send a notification when a face is recognized
+   * Send a notification when a face is recognized. A clip still being
+   * recorded is attached to the notification once it is ready.
    */
   static async sendRecognitionNotification(
     faceName: string, 
     faceId?: string, 
     image?: string,
-    notes?: string
+    notes?: string,
+    details: RecognitionEventDetails = {}
   ): Promise<boolean> {
     // Check if notifications are enabled
     if (!this.getSettings().enabled) {
@@ -75,58 +113,106 @@ export class NotificationsService {
       return false;
     }
     
+    // Check if we've recently sent a notification for this person, or face when ungrouped
+    const cooldownKey = details.personId || faceId;
+    const now = Date.now();
+    const cooldownEnd = cooldownKey ? this.cooldowns.get(cooldownKey) : undefined;
+    
+    if (cooldownEnd && now < cooldownEnd) {
+      console.log(`Skipping notification for ${faceName} - cooldown period active`);
+      return false;
+    }
+    
+    const cooldown = details.cooldownSeconds != null
+      ? details.cooldownSeconds * 1000
+      : this.NOTIFICATION_COOLDOWN;
+    
     try {
-      // If we have a face ID, check if we've recently sent a notification for this face
-      if (faceId) {
-        const now = Date.now();
-        const lastNotified = this.recentlyNotifiedFaces.get(faceId);
-        
-        if (lastNotified && now - lastNotified < this.NOTIFICATION_COOLDOWN) {
-          console.log(`Skipping notification for ${faceName} - cooldown period active`);
-          return false;
-        }
-        
-        // Update the timestamp for this face
-        this.recentlyNotifiedFaces.set(faceId, now);
+      // Held while the notification is stored so frames arriving meanwhile don't send it twice
+      if (cooldownKey) {
+        this.cooldowns.set(cooldownKey, now + cooldown);
         
         // Clean up old entries from the map
-        this.cleanupRecentlyNotifiedFaces();
+        this.cleanupCooldowns();
       }
       
+      // Claimed before the upload so the clip is centred on the event
+      const clip = details.captureClip?.();
+      
       console.log(`Sending recognition notification for ${faceName}`);
       
-      const { data, error } = await supabase
-        .from('recognition_notifications')
-        .insert({
-          face_id: faceId || null,
-          face_name: faceName,
-          image: image || null,
-          notes: notes || null
-        })
-        .select()
-        .single();
-        
-      if (error) {
-        console.error('Error sending notification:', error);
-        return false;
-      }
+      const stored = await FaceImageService.storeIfInline('notifications', image);
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      
+      const data = await notifications.insert({
+        user_id: userId,
+        face_id: faceId || null,
+        face_name: faceName,
+        image: stored ? null : image || null,
+        image_path: stored?.path ?? null,
+        thumbnail: stored?.thumbnail ?? null,
+        notes: notes || null,
+        camera_id: details.camera?.id ?? null,
+        camera_label: details.camera?.label ?? null,
+        kind: details.kind ?? 'recognition',
+        descriptor: details.descriptor ? Array.from(details.descriptor) : null
+      });
       
       console.log('Notification sent successfully:', data);
+      
+      WebhookService.dispatchRecognition({
+        notificationId: data.id,
+        recognizedAt: data.recognized_at,
+        faceName,
+        faceId,
+        personId: details.personId,
+        confidence: details.confidence,
+        unknown: details.unknown,
+        camera: details.camera,
+        imagePath: data.image_path,
+      });
+      
+      if (clip) {
+        this.attachClip(data.id, clip);
+      }
       return true;
     } catch (error) {
       console.error('Error sending notification:', error);
+      // Nothing was sent, so the next sighting may try again
+      if (cooldownKey && this.cooldowns.get(cooldownKey) === now + cooldown) {
+        this.cooldowns.delete(cooldownKey);
+      }
       return false;
     }
   }
 
   /**
-   * Clean up old entries from the recentlyNotifiedFaces map
+   * Upload an event clip when recording finishes and link it to its notification
+   */
+  private static async attachClip(notificationId: string, clip: Promise<Blob | null>): Promise<void> {
+    try {
+      const blob = await clip;
+      if (!blob) return;
+      
+      const clipPath = await EventClipService.store(blob);
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      await notifications.update(notificationId, { clip_path: clipPath }, { userId });
+      console.log(`Clip attached to notification ${notificationId}`);
+    } catch (error) {
+      console.error('Error saving event clip:', error);
+    }
+  }
+
+  /**
+   * Clean up expired entries from the cooldowns map
    */
-  private static cleanupRecentlyNotifiedFaces(): void {
+  private static cleanupCooldowns(): void {
     const now = Date.now();
-    for (const [faceId, timestamp] of this.recentlyNotifiedFaces.entries()) {
-      if (now - timestamp > this.NOTIFICATION_COOLDOWN) {
-        this.recentlyNotifiedFaces.delete(faceId);
+    for (const [key, cooldownEnd] of this.cooldowns.entries()) {
+      if (now >= cooldownEnd) {
+        this.cooldowns.delete(key);
       }
     }
   }
@@ -138,38 +224,40 @@ export class NotificationsService {
     callback: (notification: FaceRecognitionNotification) => void
   ): () => void {
     // Unsubscribe from any existing subscription
-    if (this.channel) {
-      supabase.removeChannel(this.channel);
+    if (this.unsubscribeChannel) {
+      this.unsubscribeChannel();
     }
 
     console.log('Subscribing to recognition notifications...');
     
-    // Create a new subscription
-    this.channel = supabase
-      .channel('public:recognition_notifications')
-      .on(
-        'postgres_changes',
-        { 
-          event: 'INSERT', 
-          schema: 'public', 
-          table: 'recognition_notifications' 
-        },
-        (payload) => {
-          console.log('New notification received:', payload);
-          const notification = payload.new as FaceRecognitionNotification;
-          callback(notification);
-        }
-      )
-      .subscribe((status) => {
-        console.log('Subscription status:', status);
+    const { notifications, getCurrentUserId } = getRepositories();
+    let unsubscribeRepository: (() => void) | null = null;
+    let cancelled = false;
+    
+    // Only the current user's notifications are delivered; the user is resolved first
+    getCurrentUserId()
+      .then(userId => {
+        if (cancelled) return;
+        unsubscribeRepository = notifications.subscribe(notification => {
+          callback(notification as FaceRecognitionNotification);
+        }, { userId });
+      })
+      .catch(error => {
+        console.error('Error subscribing to notifications:', error);
       });
+    
+    const unsubscribe = () => {
+      cancelled = true;
+      unsubscribeRepository?.();
+    };
+    this.unsubscribeChannel = unsubscribe;
 
     // Return a function to unsubscribe
     return () => {
-      if (this.channel) {
+      if (this.unsubscribeChannel === unsubscribe) {
         console.log('Unsubscribing from notifications');
-        supabase.removeChannel(this.channel);
-        this.channel = null;
+        unsubscribe();
+        this.unsubscribeChannel = null;
       }
     };
   }
@@ -179,16 +267,10 @@ export class NotificationsService {
    */
   static async getUnreadNotifications(): Promise<FaceRecognitionNotification[]> {
     try {
-      const { data, error } = await supabase
-        .from('recognition_notifications')
-        .select('*')
-        .order('recognized_at', { ascending: false })
-        .limit(50); // Get both read and unread, but limit to most recent 50
-        
-      if (error) {
-        console.error('Error fetching notifications:', error);
-        return [];
-      }
+      // Get both read and unread, but limit to most recent 50
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      const data = await notifications.list({ userId, limit: 50 });
       
       return data as FaceRecognitionNotification[];
     } catch (error) {
@@ -202,15 +284,9 @@ export class NotificationsService {
    */
   static async markAsRead(notificationId: string): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('recognition_notifications')
-        .update({ is_read: true })
-        .eq('id', notificationId);
-        
-      if (error) {
-        console.error('Error updating notification:', error);
-        return false;
-      }
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      await notifications.update(notificationId, { is_read: true }, { userId });
       
       return true;
     } catch (error) {
@@ -219,20 +295,38 @@ export class NotificationsService {
     }
   }
   
+  /**
+   * Record how an unknown-face alert was handled; enrolled alerts take the new person's name
+   */
+  static async resolveUnknownAlert(
+    notificationId: string,
+    resolution: NotificationResolution,
+    faceName?: string
+  ): Promise<boolean> {
+    try {
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      await notifications.update(notificationId, {
+        resolution,
+        is_read: true,
+        ...(faceName ? { face_name: faceName } : {})
+      }, { userId });
+      
+      return true;
+    } catch (error) {
+      console.error('Error resolving unknown face alert:', error);
+      return false;
+    }
+  }
+  
   /**
    * Mark all notifications as read
    */
   static async markAllAsRead(): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('recognition_notifications')
-        .update({ is_read: true })
-        .eq('is_read', false);
-        
-      if (error) {
-        console.error('Error updating notifications:', error);
-        return false;
-      }
+      const { notifications, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      await notifications.markAllAsRead({ userId });
       
       return true;
     } catch (error) {
@@ -1,12 +1,16 @@
 
-import { supabase } from '@/integrations/supabase/client';
-import { DetectedFace } from './FaceDetectionService';
+import { getRepositories, PersonRow } from '@/services/storage';
+import { DetectedFace, FaceDetectionService } from './FaceDetectionService';
+import { DescriptorIndex } from './DescriptorIndex';
+import { FaceImageService } from './FaceImageService';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
 
 export interface Person {
   id: string;
   name: string;
   notes?: string;
   notifyOnRecognition?: boolean;
+  notificationCooldownSeconds?: number | null; // Overrides the global cooldown when set
   createdAt: Date;
   updatedAt: Date;
   faces?: DetectedFace[];
@@ -14,103 +18,59 @@ export interface Person {
 }
 
 export class PersonService {
-  private static RECOGNITION_THRESHOLD = 0.55; // Threshold for face matching (0.5-0.6 is typical)
-  
   static async getAllPersons(): Promise<Person[]> {
     try {
+      const { persons, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
       // Only fetch persons belonging to the current user
-      const { data: persons, error } = await supabase
-        .from('persons')
-        .select('*')
-        .eq('user_id', user?.id);
-        
-      if (error) {
-        console.error('Error fetching persons:', error);
-        return [];
-      }
+      const rows = await persons.list({ userId });
       
       // Convert database dates to JavaScript dates
-      return persons.map(person => ({
-        id: person.id,
-        name: person.name,
-        notes: person.notes,
-        notifyOnRecognition: person.notify_on_recognition,
-        createdAt: new Date(person.created_at),
-        updatedAt: new Date(person.updated_at),
-        userId: person.user_id
-      }));
+      const result = rows.map(PersonService.fromPersonRow);
+      
+      // Keep recognition labels in sync with the latest person details
+      DescriptorIndex.setPersons(result);
+      
+      return result;
     } catch (error) {
-      console.error('Error processing persons:', error);
+      console.error('Error fetching persons:', error);
       return [];
     }
   }
   
   static async getPersonWithFaces(personId: string): Promise<Person | null> {
     try {
+      const { persons, faces, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
       // Only fetch the person if it belongs to the current user
-      const { data: person, error: personError } = await supabase
-        .from('persons')
-        .select('*')
-        .eq('id', personId)
-        .eq('user_id', user?.id)
-        .single();
+      const person = await persons.getById(personId, { userId });
         
-      if (personError || !person) {
-        console.error('Error fetching person:', personError);
+      if (!person) {
+        console.error('Error fetching person:', personId);
         return null;
       }
       
       // Get faces for this person
-      const { data: faces, error: facesError } = await supabase
-        .from('stored_faces')
-        .select('*')
-        .eq('person_id', personId);
+      try {
+        const faceRows = await faces.list({ personId, userId });
         
-      if (facesError) {
+        return {
+          ...PersonService.fromPersonRow(person),
+          faces: faceRows.map(FaceDetectionService.fromStoredFace)
+        };
+      } catch (facesError) {
         console.error('Error fetching faces for person:', facesError);
         return {
-          id: person.id,
-          name: person.name,
-          notes: person.notes,
-          notifyOnRecognition: person.notify_on_recognition,
-          createdAt: new Date(person.created_at),
-          updatedAt: new Date(person.updated_at),
-          userId: person.user_id,
+          ...PersonService.fromPersonRow(person),
           faces: []
         };
       }
-      
-      // Convert faces data
-      const processedFaces = faces.map(face => ({
-        id: face.id,
-        name: face.name,
-        descriptor: new Float32Array(face.descriptor),
-        image: face.image,
-        age: face.age,
-        gender: face.gender,
-        timestamp: new Date(face.created_at || face.last_seen),
-        notifyOnRecognition: face.notify_on_recognition,
-        notes: face.notes,
-        detection: null,
-        personId: face.person_id
-      }));
-      
-      return {
-        id: person.id,
-        name: person.name,
-        notes: person.notes,
-        notifyOnRecognition: person.notify_on_recognition,
-        createdAt: new Date(person.created_at),
-        updatedAt: new Date(person.updated_at),
-        userId: person.user_id,
-        faces: processedFaces
-      };
     } catch (error) {
       console.error('Error processing person with faces:', error);
       return null;
@@ -119,22 +79,23 @@ export class PersonService {
   
   static async updatePerson(person: Person): Promise<boolean> {
     try {
+      const { persons, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
       // Only allow updating person if it belongs to the current user
-      const { error } = await supabase
-        .from('persons')
-        .update({
-          name: person.name,
-          notes: person.notes,
-          notify_on_recognition: person.notifyOnRecognition,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', person.id)
-        .eq('user_id', user?.id);
+      await persons.update(person.id, {
+        name: person.name,
+        notes: person.notes,
+        notify_on_recognition: person.notifyOnRecognition,
+        notification_cooldown_seconds: person.notificationCooldownSeconds ?? null,
+        updated_at: new Date().toISOString()
+      }, { userId });
+      
+      DescriptorIndex.setPerson(person);
         
-      return !error;
+      return true;
     } catch (error) {
       console.error('Error updating person:', error);
       return false;
@@ -143,17 +104,18 @@ export class PersonService {
   
   static async deletePerson(personId: string): Promise<boolean> {
     try {
+      const { persons, faces, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
       // Only allow deleting person if it belongs to the current user
-      const { error } = await supabase
-        .from('persons')
-        .delete()
-        .eq('id', personId)
-        .eq('user_id', user?.id);
+      const personFaces = await faces.list({ personId, userId });
+      await persons.delete(personId, { userId });
+      DescriptorIndex.removePerson(personId);
+      await FaceImageService.remove(personFaces.map(face => face.image_path));
         
-      return !error;
+      return true;
     } catch (error) {
       console.error('Error deleting person:', error);
       return false;
@@ -162,21 +124,18 @@ export class PersonService {
   
   static async addFaceToPerson(personId: string, face: DetectedFace): Promise<string | undefined> {
     try {
+      const { persons, faces, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
-      if (!face.descriptor || !face.image) {
+      if (!face.descriptor || (!face.image && !face.imagePath)) {
         console.error('Cannot store face without descriptor and image');
         return undefined;
       }
       
       // Verify the person belongs to the current user
-      const { data: person } = await supabase
-        .from('persons')
-        .select('id')
-        .eq('id', personId)
-        .eq('user_id', user?.id)
-        .single();
+      const person = await persons.getById(personId, { userId });
         
       if (!person) {
         console.error('Person not found or does not belong to current user');
@@ -185,29 +144,26 @@ export class PersonService {
       
       // Convert descriptor to array before storing
       const descriptorArray = Array.from(face.descriptor);
+      const stored = await FaceImageService.storeIfInline('faces', face.image);
       
-      const { data, error } = await supabase
-        .from('stored_faces')
-        .insert({
-          name: face.name || 'Unknown',
-          descriptor: descriptorArray,
-          image: face.image,
-          age: face.age,
-          gender: face.gender,
-          notify_on_recognition: face.notifyOnRecognition || false,
-          notes: face.notes || '',
-          person_id: personId,
-          user_id: user?.id // Set the user_id to the current user
-        })
-        .select('id')
-        .single();
-        
-      if (error) {
-        console.error('Error adding face to person:', error);
-        return undefined;
-      }
+      const row = await faces.insert({
+        name: face.name || 'Unknown',
+        descriptor: descriptorArray,
+        image: stored ? null : face.image,
+        image_path: stored?.path ?? face.imagePath,
+        thumbnail: stored?.thumbnail ?? face.thumbnail,
+        quality_score: face.quality,
+        age: face.age,
+        gender: face.gender,
+        notify_on_recognition: face.notifyOnRecognition || false,
+        notes: face.notes || '',
+        person_id: personId,
+        user_id: userId // Set the user_id to the current user
+      });
+      
+      DescriptorIndex.upsert(FaceDetectionService.fromStoredFace(row));
       
-      return data.id;
+      return row.id;
     } catch (error) {
       console.error('Error adding face to person:', error);
       return undefined;
@@ -216,22 +172,21 @@ export class PersonService {
   
   static async createPersonWithFace(face: DetectedFace): Promise<string | undefined> {
     try {
+      const { persons, getCurrentUserId } = getRepositories();
+      
       // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      const userId = await getCurrentUserId();
       
       // Create the person with the current user ID
-      const { data: personData, error: personError } = await supabase
-        .from('persons')
-        .insert({
+      let personData: PersonRow;
+      try {
+        personData = await persons.insert({
           name: face.name || 'Unknown Person',
           notes: face.notes,
           notify_on_recognition: face.notifyOnRecognition || false,
-          user_id: user?.id // Set the user_id to the current user
-        })
-        .select('id')
-        .single();
-        
-      if (personError || !personData) {
+          user_id: userId // Set the user_id to the current user
+        });
+      } catch (personError) {
         console.error('Error creating new person:', personError);
         return undefined;
       }
@@ -254,41 +209,19 @@ export class PersonService {
   
   static async findBestMatchingPerson(descriptor: Float32Array): Promise<{person: Person | null, distance: number}> {
     try {
-      // Get the current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
+      // Nearest persons come from the in-memory index instead of one query per person
+      await FaceDetectionService.ensureDescriptorIndex();
       
-      // Get all persons with their faces for the current user
-      const persons = await this.getAllPersons();
-      if (persons.length === 0) {
+      const [bestMatch] = DescriptorIndex.findNearest(descriptor, 1, Infinity, face => !!face.personId);
+      if (!bestMatch) {
         return { person: null, distance: Infinity };
       }
       
-      let bestMatchPerson: Person | null = null;
-      let minDistance = Infinity;
-      
-      // For each person, get their faces and compare descriptors
-      for (const person of persons) {
-        const personWithFaces = await this.getPersonWithFaces(person.id);
-        if (!personWithFaces || !personWithFaces.faces || personWithFaces.faces.length === 0) {
-          continue;
-        }
-        
-        // Compare with each face of this person
-        for (const face of personWithFaces.faces) {
-          if (!face.descriptor) continue;
-          
-          const distance = this.calculateFaceDistance(descriptor, face.descriptor);
-          
-          if (distance < minDistance) {
-            minDistance = distance;
-            bestMatchPerson = personWithFaces;
-          }
-        }
-      }
+      const person = await this.getPersonWithFaces(bestMatch.personId);
       
       return {
-        person: bestMatchPerson,
-        distance: minDistance
+        person,
+        distance: person ? bestMatch.distance : Infinity
       };
     } catch (error) {
       console.error('Error finding best matching person:', error);
@@ -296,6 +229,20 @@ export class PersonService {
     }
   }
   
+  // Convert a persons row to our Person format
+  static fromPersonRow(person: PersonRow): Person {
+    return {
+      id: person.id,
+      name: person.name,
+      notes: person.notes,
+      notifyOnRecognition: person.notify_on_recognition,
+      notificationCooldownSeconds: person.notification_cooldown_seconds,
+      createdAt: new Date(person.created_at),
+      updatedAt: new Date(person.updated_at),
+      userId: person.user_id
+    };
+  }
+  
   // Euclidean distance between two face descriptors
   static calculateFaceDistance(descriptor1: Float32Array, descriptor2: Float32Array): number {
     if (!descriptor1 || !descriptor2 || descriptor1.length !== descriptor2.length) {
@@ -312,6 +259,6 @@ export class PersonService {
   
   // Determine if a face should be clustered with an existing person
   static shouldClusterWithPerson(distance: number): boolean {
-    return distance < this.RECOGNITION_THRESHOLD;
+    return distance < RecognitionSettingsService.getSettings().matchDistance;
   }
 }
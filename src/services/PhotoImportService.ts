@@ -0,0 +1,174 @@
+import { DetectedFace, FaceDetectionService } from './FaceDetectionService';
+import { FaceQuality, FaceQualityService } from './FaceQualityService';
+import { FaceCropper } from './FaceCropper';
+import { DescriptorIndex } from './DescriptorIndex';
+import { PersonService } from './PersonService';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
+import { generateTemporaryId } from '@/utils/idGenerator';
+
+const IMAGE_LOAD_TIMEOUT_MS = 10000;
+const MAX_SUGGESTIONS = 3;
+
+export interface MatchSuggestion {
+  personId: string;
+  name: string;
+  distance: number;
+}
+
+// One face found in an imported photo, waiting for the user's decision
+export interface ImportCandidate {
+  id: string;
+  fileName: string;
+  face: DetectedFace;
+  quality: FaceQuality;
+  suggestions: MatchSuggestion[];
+}
+
+export interface ImportFileResult {
+  fileName: string;
+  candidates: ImportCandidate[];
+  rejectedCount: number; // Faces too poor to recognize from
+  error?: string;
+}
+
+export type ImportDecision =
+  | { action: 'assign'; personId: string; personName: string }
+  | { action: 'create'; name: string }
+  | { action: 'discard' };
+
+/**
+ * Finds every face in imported photos and saves each one the way the user decides
+ */
+export class PhotoImportService {
+  /**
+   * Load an image file, rejecting files that fail to decode or take too long
+   */
+  static loadImage(file: Blob, name: string = 'image'): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      const url = URL.createObjectURL(file);
+
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        URL.revokeObjectURL(url);
+        if (error) reject(error);
+        else resolve(image);
+      };
+
+      const timeout = setTimeout(() => finish(new Error(`Timed out loading image: ${name}`)), IMAGE_LOAD_TIMEOUT_MS);
+      image.onload = () => finish();
+      image.onerror = () => finish(new Error(`Failed to load image: ${name}`));
+      image.src = url;
+    });
+  }
+
+  /**
+   * Detect, score and crop every face in a photo and suggest who each one is
+   */
+  static async detectFaces(file: Blob, fileName: string): Promise<ImportFileResult> {
+    try {
+      const img = await this.loadImage(file, fileName);
+      const [detections] = await Promise.all([
+        FaceDetectionService.detectAllFacesInImage(img),
+        FaceDetectionService.ensureDescriptorIndex(),
+      ]);
+
+      const candidates: ImportCandidate[] = [];
+      let rejectedCount = 0;
+
+      for (const detection of detections) {
+        if (!detection.descriptor) continue;
+
+        const quality = FaceQualityService.assess(img, detection.detection.box, detection.landmarks);
+        if (quality.level === 'reject') {
+          rejectedCount++;
+          continue;
+        }
+
+        const face: DetectedFace = {
+          detection: detection.detection,
+          expressions: detection.expressions,
+          age: detection.age,
+          gender: detection.gender,
+          descriptor: detection.descriptor,
+          quality: quality.score,
+          timestamp: new Date(),
+          id: generateTemporaryId(),
+          // Aligned crop of this face rather than the whole photo
+          image: FaceCropper.crop(img, detection.detection.box, detection.landmarks),
+        };
+        if (!face.image) continue;
+
+        candidates.push({
+          id: face.id,
+          fileName,
+          face,
+          quality,
+          suggestions: this.suggestMatches(detection.descriptor),
+        });
+      }
+
+      return { fileName, candidates, rejectedCount };
+    } catch (error) {
+      console.error(`Error importing "${fileName}":`, error);
+      return { fileName, candidates: [], rejectedCount: 0, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Nearest known persons for a descriptor, closest first
+   */
+  static suggestMatches(descriptor: Float32Array): MatchSuggestion[] {
+    const { matchDistance } = RecognitionSettingsService.getSettings();
+
+    return DescriptorIndex.findNearest(descriptor, MAX_SUGGESTIONS, matchDistance, face => !!face.personId)
+      .filter(match => match.person)
+      .map(match => ({ personId: match.person!.id, name: match.person!.name, distance: match.distance }));
+  }
+
+  /**
+   * Apply the user's decisions in order. Faces given the same new name end up
+   * under one new person rather than one person each.
+   */
+  static async saveAll(
+    items: { candidate: ImportCandidate; decision: ImportDecision }[]
+  ): Promise<{ saved: number; failed: number }> {
+    const created = new Map<string, string>();
+    let saved = 0;
+    let failed = 0;
+
+    for (const { candidate, decision } of items) {
+      if (decision.action === 'discard') continue;
+
+      let effective = decision;
+      const name = decision.action === 'create' ? decision.name.trim().toLowerCase() : '';
+      if (decision.action === 'create' && created.has(name)) {
+        effective = { action: 'assign', personId: created.get(name)!, personName: decision.name.trim() };
+      }
+
+      const id = await this.save(candidate, effective);
+      if (!id) {
+        failed++;
+        continue;
+      }
+
+      saved++;
+      if (effective.action === 'create') created.set(name, id);
+    }
+
+    return { saved, failed };
+  }
+
+  /**
+   * Apply the user's decision for one face; returns the saved face or person ID
+   */
+  static async save(candidate: ImportCandidate, decision: ImportDecision): Promise<string | undefined> {
+    if (decision.action === 'discard') return undefined;
+
+    if (decision.action === 'assign') {
+      return PersonService.addFaceToPerson(decision.personId, { ...candidate.face, name: decision.personName });
+    }
+
+    return PersonService.createPersonWithFace({ ...candidate.face, name: decision.name.trim() || 'Unknown Person' });
+  }
+}
@@ -0,0 +1,104 @@
+import { DetectionPipeline, DetectorKind, PipelineMode } from './DetectionPipeline';
+
+// Where detection runs; each context picks its own detector
+export type DetectionContext = 'live' | 'upload';
+
+export interface RecognitionSettings {
+  inputSize: number; // Tiny detector input size in pixels, a multiple of 32
+  scoreThreshold: number; // Minimum tiny detector confidence (0-1)
+  ssdMinConfidence: number; // Minimum SSD MobileNet confidence (0-1)
+  liveDetector: DetectorKind; // Detector for the live camera
+  uploadDetector: DetectorKind; // Detector for uploaded and imported photos
+  matchDistance: number; // Maximum descriptor distance to count as the same person
+  pipelineMode: PipelineMode; // Which models the live camera loads and runs
+}
+
+export const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = {
+  inputSize: 320,
+  scoreThreshold: 0.8,
+  ssdMinConfidence: 0.5,
+  liveDetector: 'tiny',
+  uploadDetector: 'ssd',
+  matchDistance: 0.55, // 0.5-0.6 is typical
+  pipelineMode: 'analytics',
+};
+
+export const INPUT_SIZE_OPTIONS = [128, 160, 224, 320, 416, 512, 608];
+
+export class RecognitionSettingsService {
+  private static settings: RecognitionSettings = { ...DEFAULT_RECOGNITION_SETTINGS };
+  private static listeners: Set<(settings: RecognitionSettings) => void> = new Set();
+
+  /**
+   * Get the settings currently driving detection and matching
+   */
+  static getSettings(): RecognitionSettings {
+    return this.settings;
+  }
+
+  /**
+   * Which detector a context uses
+   */
+  static getDetector(context: DetectionContext): DetectorKind {
+    return context === 'live' ? this.settings.liveDetector : this.settings.uploadDetector;
+  }
+
+  /**
+   * Apply settings loaded from the user's profile row, falling back to defaults
+   */
+  static applyProfileSettings(saved: unknown): void {
+    const partial = saved && typeof saved === 'object' ? saved as Partial<RecognitionSettings> : {};
+    this.setSettings({ ...DEFAULT_RECOGNITION_SETTINGS, ...partial });
+  }
+
+  /**
+   * Update settings in memory; persisting them to the profile is up to the caller
+   */
+  static updateSettings(settings: Partial<RecognitionSettings>): RecognitionSettings {
+    this.setSettings({ ...this.settings, ...settings });
+    return this.settings;
+  }
+
+  /**
+   * Subscribe to settings changes; returns an unsubscribe function
+   */
+  static subscribe(listener: (settings: RecognitionSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Clamp settings into the ranges the detector and matcher accept
+   */
+  static normalize(settings: RecognitionSettings): RecognitionSettings {
+    const clamp = (value: number, min: number, max: number, fallback: number) =>
+      Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+    // The tiny face detector only accepts input sizes divisible by 32
+    const inputSize = Math.round(
+      clamp(settings.inputSize, 128, 608, DEFAULT_RECOGNITION_SETTINGS.inputSize) / 32
+    ) * 32;
+
+    const detector = (value: unknown, fallback: DetectorKind) =>
+      DetectionPipeline.isValidDetector(value) ? value : fallback;
+
+    return {
+      inputSize,
+      scoreThreshold: clamp(settings.scoreThreshold, 0.1, 0.99, DEFAULT_RECOGNITION_SETTINGS.scoreThreshold),
+      ssdMinConfidence: clamp(settings.ssdMinConfidence, 0.1, 0.99, DEFAULT_RECOGNITION_SETTINGS.ssdMinConfidence),
+      liveDetector: detector(settings.liveDetector, DEFAULT_RECOGNITION_SETTINGS.liveDetector),
+      uploadDetector: detector(settings.uploadDetector, DEFAULT_RECOGNITION_SETTINGS.uploadDetector),
+      matchDistance: clamp(settings.matchDistance, 0.2, 1, DEFAULT_RECOGNITION_SETTINGS.matchDistance),
+      pipelineMode: DetectionPipeline.isValidMode(settings.pipelineMode)
+        ? settings.pipelineMode
+        : DEFAULT_RECOGNITION_SETTINGS.pipelineMode,
+    };
+  }
+
+  private static setSettings(settings: RecognitionSettings): void {
+    this.settings = this.normalize(settings);
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+}
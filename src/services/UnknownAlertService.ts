@@ -0,0 +1,92 @@
+import { getRepositories } from "@/services/storage";
+import { FaceDetectionService, UNIDENTIFIED_FACE_NAME } from './FaceDetectionService';
+import { FaceImageService } from './FaceImageService';
+import { FaceRecognitionNotification, NotificationsService } from './NotificationsService';
+import { PersonService } from './PersonService';
+
+/**
+ * Enrolls or dismisses unknown-face alerts from the notifications panel
+ */
+export class UnknownAlertService {
+  /**
+   * Turn the face of an alert into a named person and return the person's ID.
+   * A face the camera already auto-saved is promoted in place; otherwise a new
+   * person is created from the alert's descriptor and snapshot.
+   */
+  static async enroll(notification: FaceRecognitionNotification, name: string): Promise<string> {
+    const personId = (notification.face_id && await this.promoteSavedFace(notification.face_id, name))
+      || await this.createFromAlert(notification, name);
+
+    if (!await NotificationsService.resolveUnknownAlert(notification.id, 'enrolled', name)) {
+      throw new Error('The alert could not be updated');
+    }
+    return personId;
+  }
+
+  static async dismiss(notification: FaceRecognitionNotification): Promise<void> {
+    if (!await NotificationsService.resolveUnknownAlert(notification.id, 'dismissed')) {
+      throw new Error('The alert could not be updated');
+    }
+  }
+
+  /**
+   * Name the auto-saved face and its person; returns undefined when the face is gone
+   */
+  private static async promoteSavedFace(faceId: string, name: string): Promise<string | undefined> {
+    const { faces, persons, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+
+    const face = await faces.getById(faceId, { userId });
+    if (!face) return undefined;
+
+    const personId = face.person_id ?? await FaceDetectionService.createPersonFromFace(faceId);
+    const person = await persons.getById(personId, { userId });
+    if (!person) return undefined;
+
+    if (person.name !== UNIDENTIFIED_FACE_NAME) {
+      throw new Error(`This face is already saved as ${person.name}`);
+    }
+
+    const renamed = await PersonService.updatePerson({
+      ...PersonService.fromPersonRow(person),
+      name,
+      notes: person.notes?.startsWith('Automatically saved') ? null : person.notes,
+    });
+    if (!renamed) throw new Error('The person could not be renamed');
+
+    // Samples keep their own name, which lists show for ungrouped faces
+    const samples = await faces.list({ userId, personId });
+    await Promise.all(samples
+      .filter(sample => sample.name === UNIDENTIFIED_FACE_NAME)
+      .map(sample => FaceDetectionService.updateFaceInDatabase({ ...FaceDetectionService.fromStoredFace(sample), name })));
+
+    return personId;
+  }
+
+  private static async createFromAlert(notification: FaceRecognitionNotification, name: string): Promise<string> {
+    if (!notification.descriptor) throw new Error('This alert has no face data to enroll from');
+
+    // The face gets its own copy of the snapshot, so deleting one keeps the other
+    const snapshot = await FaceImageService.fetchBlob({
+      image: notification.image,
+      imagePath: notification.image_path,
+    });
+    if (!snapshot) throw new Error('The snapshot is no longer available');
+    const stored = await FaceImageService.store('faces', snapshot);
+
+    const personId = await PersonService.createPersonWithFace({
+      id: FaceDetectionService.generateFaceId(),
+      timestamp: new Date(notification.recognized_at),
+      descriptor: new Float32Array(notification.descriptor),
+      imagePath: stored.path,
+      thumbnail: stored.thumbnail,
+      name,
+    });
+
+    if (!personId) {
+      await FaceImageService.remove([stored.path]);
+      throw new Error('The person could not be saved');
+    }
+    return personId;
+  }
+}
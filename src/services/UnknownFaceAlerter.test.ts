@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DetectedFace, FaceDetectionService } from './FaceDetectionService';
+import { RecognitionState, TrackedFace } from './FaceTracker';
+import { UnknownFaceAlerter } from './UnknownFaceAlerter';
+import { UnknownFaceCollector } from './UnknownFaceCollector';
+
+// The models are not needed, only descriptor distances
+vi.mock('@vladmandic/face-api', () => ({
+  euclideanDistance: (a: ArrayLike<number>, b: ArrayLike<number>) =>
+    Math.hypot(...Array.from(a, (value, i) => value - b[i])),
+}));
+
+const video = {} as HTMLVideoElement;
+const descriptor = new Float32Array([0.1, 0.2, 0.3]);
+
+const frame = (recognitionState: RecognitionState, matchedFaceId?: string): TrackedFace => ({
+  id: 'track_1',
+  trackId: 'track_1',
+  timestamp: new Date(),
+  descriptor,
+  detection: { box: { x: 0, y: 0, width: 100, height: 100 } },
+  recognitionState,
+  matchedFaceId,
+  stateChanged: false,
+});
+
+// Let the collector's pending save settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('UnknownFaceAlerter with auto-save', () => {
+  beforeEach(() => {
+    vi.spyOn(FaceDetectionService, 'assessQuality').mockReturnValue({ level: 'good', score: 0.9, yaw: 0 } as ReturnType<typeof FaceDetectionService.assessQuality>);
+    vi.spyOn(FaceDetectionService, 'captureFaceImage').mockImplementation((_video, faces: DetectedFace[]) =>
+      faces.map(face => ({ ...face, image: 'data:image/jpeg;base64,AAAA' })));
+    vi.spyOn(FaceDetectionService, 'autoSaveUnidentifiedFace').mockResolvedValue('saved-1');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('still alerts on a face recognized as this session\'s auto-saved unknown', async () => {
+    const collector = new UnknownFaceCollector();
+    const alerts: TrackedFace[] = [];
+    const alerter = new UnknownFaceAlerter(
+      { alertAfterMs: 10000 },
+      face => alerts.push(face),
+      face => !!collector.findSaved(face)
+    );
+
+    // Settles as unknown and gets auto-saved two seconds later
+    for (let now = 0; now <= 3000; now += 500) {
+      const faces = [frame(now < 1000 ? 'pending' : 'unknown')];
+      collector.observe(faces, video, now);
+      alerter.observe(faces, now);
+      await flush();
+    }
+    expect(collector.savedCount).toBe(1);
+
+    // From then on the tracker matches the saved sample
+    for (let now = 3500; now < 10000; now += 500) {
+      alerter.observe([frame('recognized', 'saved-1')], now);
+    }
+    expect(alerts).toHaveLength(0);
+
+    alerter.observe([frame('recognized', 'saved-1')], 10000);
+    expect(alerts).toHaveLength(1);
+    expect(collector.findSaved(alerts[0])).toEqual({ faceId: 'saved-1', personId: undefined });
+
+    // One alert per individual
+    alerter.observe([frame('recognized', 'saved-1')], 20000);
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('does not alert on a face recognized as someone else', () => {
+    const collector = new UnknownFaceCollector();
+    const alerts: TrackedFace[] = [];
+    const alerter = new UnknownFaceAlerter(
+      { alertAfterMs: 10000 },
+      face => alerts.push(face),
+      face => !!collector.findSaved(face)
+    );
+
+    for (let now = 0; now <= 15000; now += 500) {
+      alerter.observe([frame(now < 1000 ? 'pending' : 'recognized', 'known-face')], now);
+    }
+    expect(alerts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,94 @@
+import * as faceapi from '@vladmandic/face-api';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
+import { TrackedFace } from './FaceTracker';
+
+export interface UnknownFaceAlerterOptions {
+  alertAfterMs: number; // How long a face must stay unrecognized before alerting
+  forgetAfterMs: number; // Tracks not seen for this long start over
+}
+
+const DEFAULT_OPTIONS: UnknownFaceAlerterOptions = {
+  alertAfterMs: 10000,
+  forgetAfterMs: 2000,
+};
+
+interface WatchedTrack {
+  firstSeen: number;
+  lastSeen: number;
+  alerted: boolean;
+}
+
+/**
+ * Raises one alert per unknown individual once their face has stayed
+ * unrecognized on camera for a while. Individuals already alerted on this
+ * session are matched by descriptor, so a face that drops out of view and
+ * comes back under a new track does not alert again.
+ *
+ * Faces recognized as a record nobody has identified yet, such as an
+ * auto-saved unknown, still count as unrecognized; `isUnidentified`
+ * tells them apart from real matches.
+ */
+export class UnknownFaceAlerter {
+  private tracks: Map<string, WatchedTrack> = new Map();
+  private alertedDescriptors: Float32Array[] = [];
+  private options: UnknownFaceAlerterOptions;
+
+  constructor(
+    options: Partial<UnknownFaceAlerterOptions> = {},
+    private onAlert?: (face: TrackedFace, unrecognizedMs: number) => void,
+    private isUnidentified: (face: TrackedFace) => boolean = () => false
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<UnknownFaceAlerterOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Feed the tracked faces of one frame
+   */
+  observe(faces: TrackedFace[], now: number = Date.now()): void {
+    faces.forEach(face => {
+      const recognized = face.recognitionState === 'recognized' && !this.isUnidentified(face);
+      if (recognized) {
+        this.tracks.delete(face.trackId);
+        return;
+      }
+
+      let track = this.tracks.get(face.trackId);
+      if (!track) {
+        track = { firstSeen: now, lastSeen: now, alerted: false };
+        this.tracks.set(face.trackId, track);
+      }
+      track.lastSeen = now;
+
+      // Pending tracks count towards the wait but only settled unknowns alert
+      const unrecognizedMs = now - track.firstSeen;
+      if (track.alerted || face.recognitionState === 'pending' || unrecognizedMs < this.options.alertAfterMs) return;
+
+      track.alerted = true;
+      if (face.descriptor) {
+        if (this.wasAlerted(face.descriptor)) return;
+        this.alertedDescriptors.push(new Float32Array(face.descriptor));
+      }
+      this.onAlert?.(face, unrecognizedMs);
+    });
+
+    for (const [trackId, track] of this.tracks) {
+      if (now - track.lastSeen > this.options.forgetAfterMs) {
+        this.tracks.delete(trackId);
+      }
+    }
+  }
+
+  reset(): void {
+    this.tracks.clear();
+    this.alertedDescriptors = [];
+  }
+
+  private wasAlerted(descriptor: Float32Array): boolean {
+    const { matchDistance } = RecognitionSettingsService.getSettings();
+    return this.alertedDescriptors.some(alerted => faceapi.euclideanDistance(descriptor, alerted) <= matchDistance);
+  }
+}
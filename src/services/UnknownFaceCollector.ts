@@ -0,0 +1,228 @@
+import * as faceapi from '@vladmandic/face-api';
+import { DetectedFace, FaceDetectionService, UNIDENTIFIED_FACE_NAME } from './FaceDetectionService';
+import { PersonService } from './PersonService';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
+import { TrackedFace } from './FaceTracker';
+
+export interface UnknownFaceCollectorOptions {
+  settleMs: number; // How long to watch a new unknown before saving its best capture
+  saveExtraSamples: boolean; // Also keep captures whose pose differs from saved ones
+  minPoseDifference: number; // Yaw difference (eye-widths) that counts as a new pose
+  maxExtraSamples: number;
+}
+
+const DEFAULT_OPTIONS: UnknownFaceCollectorOptions = {
+  settleMs: 2000,
+  saveExtraSamples: false,
+  minPoseDifference: 0.25,
+  maxExtraSamples: 3,
+};
+
+interface UnknownCluster {
+  centroid: Float32Array;
+  observations: number;
+  firstSeen: number;
+  trackIds: Set<string>;
+  best?: { face: DetectedFace; quality: number; yaw: number };
+  // Filled in once the best capture has been stored
+  savedFaceIds: string[];
+  savedYaws: number[];
+  personId?: string;
+  saving: boolean;
+}
+
+/**
+ * Groups unrecognized faces seen during a camera session by descriptor, so
+ * each unknown individual is auto-saved once with their best capture rather
+ * than on every frame.
+ */
+export class UnknownFaceCollector {
+  private clusters: UnknownCluster[] = [];
+  private options: UnknownFaceCollectorOptions;
+
+  constructor(
+    options: Partial<UnknownFaceCollectorOptions> = {},
+    // Called for every stored sample; isNewIndividual is true for an individual's first one
+    private onSaved?: (faceId: string, face: DetectedFace, isNewIndividual: boolean) => void
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<UnknownFaceCollectorOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Unknown individuals seen this session that have not been saved yet
+   */
+  get pendingCount(): number {
+    return this.clusters.filter(cluster => cluster.savedFaceIds.length === 0).length;
+  }
+
+  get savedCount(): number {
+    return this.clusters.filter(cluster => cluster.savedFaceIds.length > 0).length;
+  }
+
+  /**
+   * Feed the tracked faces of one frame. Faces are only cropped from the
+   * video when they beat the best sample so far or show a new angle.
+   */
+  observe(faces: TrackedFace[], video: HTMLVideoElement, now: number = Date.now()): void {
+    const capture = (face: DetectedFace, quality: number) =>
+      FaceDetectionService.captureFaceImage(video, [{ ...face, quality }])[0];
+
+    faces.forEach(face => {
+      if (!face.descriptor) return;
+
+      const cluster = this.findCluster(face, now);
+      if (!cluster) return;
+
+      cluster.trackIds.add(face.trackId);
+      this.updateCentroid(cluster, face.descriptor);
+
+      // Samples too poor to recognize from are never stored
+      const assessment = FaceDetectionService.assessQuality(video, face);
+      if (assessment.level === 'reject') return;
+
+      const { score: quality, yaw } = assessment;
+
+      if (cluster.savedFaceIds.length === 0) {
+        // Still settling: keep only the best capture seen so far
+        if (!cluster.best || quality > cluster.best.quality) {
+          const captured = capture(face, quality);
+          if (captured) cluster.best = { face: captured, quality, yaw };
+        }
+      } else if (this.isNewPose(cluster, yaw)) {
+        const captured = capture(face, quality);
+        if (captured) this.saveExtraSample(cluster, captured, yaw);
+      }
+    });
+
+    this.clusters
+      .filter(cluster => cluster.savedFaceIds.length === 0 && cluster.best && !cluster.saving)
+      .filter(cluster => now - cluster.firstSeen >= this.options.settleMs)
+      .forEach(cluster => this.saveBest(cluster));
+  }
+
+  reset(): void {
+    this.clusters = [];
+  }
+
+  /**
+   * The record this session auto-saved for the unknown individual a face
+   * belongs to. Once saved, such faces are recognized as that record but
+   * remain unidentified.
+   */
+  findSaved(face: TrackedFace): { faceId: string; personId?: string } | undefined {
+    const cluster = face.recognitionState === 'recognized'
+      ? this.clusters.find(cluster =>
+          (face.matchedFaceId && cluster.savedFaceIds.includes(face.matchedFaceId)) ||
+          (face.personId && cluster.personId === face.personId)
+        )
+      : this.clusters.find(cluster => cluster.trackIds.has(face.trackId));
+    if (!cluster || cluster.savedFaceIds.length === 0) return undefined;
+
+    return { faceId: cluster.savedFaceIds[0], personId: cluster.personId };
+  }
+
+  /**
+   * Find or create the cluster an unrecognized face belongs to. Faces recognized
+   * as one of this session's own saves keep feeding that cluster.
+   */
+  private findCluster(face: TrackedFace, now: number): UnknownCluster | undefined {
+    if (face.recognitionState === 'recognized') {
+      return this.clusters.find(cluster =>
+        (face.matchedFaceId && cluster.savedFaceIds.includes(face.matchedFaceId)) ||
+        (face.personId && cluster.personId === face.personId)
+      );
+    }
+
+    if (face.recognitionState !== 'unknown') return undefined;
+
+    const byTrack = this.clusters.find(cluster => cluster.trackIds.has(face.trackId));
+    if (byTrack) return byTrack;
+
+    const { matchDistance } = RecognitionSettingsService.getSettings();
+    let nearest: UnknownCluster | undefined;
+    let nearestDistance = Infinity;
+
+    this.clusters.forEach(cluster => {
+      const distance = faceapi.euclideanDistance(face.descriptor!, cluster.centroid);
+      if (distance < nearestDistance) {
+        nearest = cluster;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest && nearestDistance <= matchDistance) return nearest;
+
+    const cluster: UnknownCluster = {
+      centroid: new Float32Array(face.descriptor!),
+      observations: 0,
+      firstSeen: now,
+      trackIds: new Set(),
+      savedFaceIds: [],
+      savedYaws: [],
+      saving: false,
+    };
+    this.clusters.push(cluster);
+    return cluster;
+  }
+
+  private updateCentroid(cluster: UnknownCluster, descriptor: Float32Array): void {
+    cluster.observations++;
+    const weight = 1 / cluster.observations;
+    for (let i = 0; i < cluster.centroid.length; i++) {
+      cluster.centroid[i] += (descriptor[i] - cluster.centroid[i]) * weight;
+    }
+  }
+
+  private isNewPose(cluster: UnknownCluster, yaw: number): boolean {
+    const { saveExtraSamples, maxExtraSamples, minPoseDifference } = this.options;
+
+    return saveExtraSamples &&
+      !cluster.saving &&
+      cluster.savedFaceIds.length <= maxExtraSamples &&
+      cluster.savedYaws.every(saved => Math.abs(saved - yaw) >= minPoseDifference);
+  }
+
+  private async saveBest(cluster: UnknownCluster): Promise<void> {
+    cluster.saving = true;
+    try {
+      const faceId = await FaceDetectionService.autoSaveUnidentifiedFace(cluster.best!.face);
+      if (faceId) {
+        cluster.savedFaceIds.push(faceId);
+        cluster.savedYaws.push(cluster.best!.yaw);
+        this.onSaved?.(faceId, cluster.best!.face, true);
+      }
+    } finally {
+      cluster.saving = false;
+    }
+  }
+
+  private async saveExtraSample(cluster: UnknownCluster, face: DetectedFace, yaw: number): Promise<void> {
+    cluster.saving = true;
+    try {
+      // Group the individual's samples under one person on the first extra angle
+      if (!cluster.personId) {
+        cluster.personId = await FaceDetectionService.createPersonFromFace(cluster.savedFaceIds[0]);
+      }
+
+      const faceId = await PersonService.addFaceToPerson(cluster.personId, {
+        ...face,
+        name: UNIDENTIFIED_FACE_NAME,
+        notes: 'Automatically saved (additional angle)',
+      });
+
+      if (faceId) {
+        cluster.savedFaceIds.push(faceId);
+        cluster.savedYaws.push(yaw);
+        this.onSaved?.(faceId, face, false);
+      }
+    } catch (error) {
+      console.error('Error saving additional unknown face sample:', error);
+    } finally {
+      cluster.saving = false;
+    }
+  }
+}
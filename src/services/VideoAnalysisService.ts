@@ -0,0 +1,296 @@
+import * as faceapi from '@vladmandic/face-api';
+import { DetectedFace, FaceBox, FaceDetectionService } from './FaceDetectionService';
+import { FaceQualityService } from './FaceQualityService';
+import { FaceCropper } from './FaceCropper';
+import { PersonService } from './PersonService';
+import { RecognitionSettingsService } from './RecognitionSettingsService';
+
+const SEEK_TIMEOUT_MS = 10000;
+// Sightings further apart than this many strides start a new segment
+const SEGMENT_GAP_STRIDES = 2;
+
+export interface VideoSegment {
+  start: number; // Seconds
+  end: number;
+}
+
+// Someone seen in the video: a known person, a known face not linked to a
+// person, or an unknown individual grouped by descriptor
+export interface VideoSubject {
+  key: string;
+  kind: 'person' | 'unknown';
+  name: string;
+  personId?: string;
+  segments: VideoSegment[];
+  sightings: number;
+  // Best crop of the subject, kept so unknown individuals can be enrolled
+  best?: { face: DetectedFace; quality: number; time: number };
+  centroid: Float32Array;
+  enrolledPersonId?: string;
+}
+
+// Faces found in one scanned frame, for drawing boxes during playback
+export interface VideoFrameSample {
+  time: number;
+  faces: { subjectKey: string; box: FaceBox }[];
+}
+
+export interface VideoAnalysisProgress {
+  time: number;
+  duration: number;
+  facesFound: number;
+}
+
+export interface VideoAnalysisResult {
+  duration: number;
+  stride: number;
+  subjects: VideoSubject[];
+  samples: VideoFrameSample[];
+}
+
+/**
+ * Scans a local video file at a fixed frame stride through the same detection
+ * and recognition pipeline as uploaded photos, and builds a timeline of who
+ * appears when.
+ */
+export class VideoAnalysisService {
+  /**
+   * Load a video file into an off-screen element that can be seeked frame by frame
+   */
+  static loadVideo(file: Blob): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.preload = 'auto';
+      video.playsInline = true;
+      video.onloadeddata = () => resolve(video);
+      video.onerror = () => {
+        URL.revokeObjectURL(video.src);
+        reject(new Error('This video format is not supported by the browser'));
+      };
+      video.src = URL.createObjectURL(file);
+    });
+  }
+
+  /**
+   * Release a video created by loadVideo
+   */
+  static releaseVideo(video: HTMLVideoElement): void {
+    const src = video.src;
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(src);
+  }
+
+  /**
+   * Detect and recognize faces every `stride` seconds of the video
+   */
+  static async analyze(
+    file: Blob,
+    stride: number,
+    onProgress?: (progress: VideoAnalysisProgress) => void,
+    signal?: AbortSignal
+  ): Promise<VideoAnalysisResult> {
+    const video = await this.loadVideo(file);
+
+    try {
+      await FaceDetectionService.ensureDescriptorIndex();
+
+      const duration = video.duration;
+      if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error('Could not read the length of the video');
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not supported');
+
+      const subjects = new Map<string, VideoSubject>();
+      const samples: VideoFrameSample[] = [];
+      let facesFound = 0;
+
+      // Times are derived from the frame index so they line up with sampleAt
+      for (let index = 0; index * stride < duration; index++) {
+        if (signal?.aborted) break;
+
+        const time = index * stride;
+        onProgress?.({ time, duration, facesFound });
+
+        await this.seek(video, time);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const detections = await FaceDetectionService.detectAllFacesInImage(canvas);
+        const sample: VideoFrameSample = { time, faces: [] };
+
+        for (const detection of detections) {
+          if (!detection.descriptor) continue;
+
+          const face: DetectedFace = {
+            id: FaceDetectionService.generateFaceId(),
+            timestamp: new Date(),
+            detection: detection.detection,
+            descriptor: detection.descriptor,
+            landmarks: detection.landmarks,
+            expressions: detection.expressions,
+            age: detection.age,
+            gender: detection.gender,
+          };
+
+          const subject = this.findSubject(subjects, face);
+          this.addSighting(subject, time, stride);
+          this.keepBestCrop(subject, canvas, face, time);
+
+          const { x, y, width, height } = detection.detection.box;
+          sample.faces.push({ subjectKey: subject.key, box: { x, y, width, height } });
+          facesFound++;
+        }
+
+        samples.push(sample);
+      }
+
+      onProgress?.({ time: duration, duration, facesFound });
+
+      return {
+        duration,
+        stride,
+        subjects: Array.from(subjects.values()).sort((a, b) => a.segments[0].start - b.segments[0].start),
+        samples,
+      };
+    } finally {
+      this.releaseVideo(video);
+    }
+  }
+
+  /**
+   * Save an unknown individual from the video as a new person with their best crop
+   */
+  static async enroll(subject: VideoSubject, name: string): Promise<string | undefined> {
+    if (!subject.best) return undefined;
+
+    return PersonService.createPersonWithFace({
+      ...subject.best.face,
+      name: name.trim() || 'Unknown Person',
+      notes: `Enrolled from video at ${this.formatTime(subject.best.time)}`,
+    });
+  }
+
+  /**
+   * The frame sample closest to a playback position, if one is within half a stride
+   */
+  static sampleAt(result: VideoAnalysisResult, time: number): VideoFrameSample | undefined {
+    const index = Math.round(time / result.stride);
+    const sample = result.samples[index];
+    return sample && Math.abs(sample.time - time) <= result.stride / 2 ? sample : undefined;
+  }
+
+  static formatTime(seconds: number): string {
+    const whole = Math.floor(seconds);
+    const minutes = Math.floor(whole / 60);
+    const secs = (whole % 60).toString().padStart(2, '0');
+    return minutes >= 60
+      ? `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}:${secs}`
+      : `${minutes}:${secs}`;
+  }
+
+  private static seek(video: HTMLVideoElement, time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const finish = (error?: Error) => {
+        clearTimeout(timeout);
+        video.removeEventListener('seeked', onSeeked);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onSeeked = () => finish();
+
+      const timeout = setTimeout(
+        () => finish(new Error(`Timed out seeking to ${this.formatTime(time)}`)),
+        SEEK_TIMEOUT_MS
+      );
+      video.addEventListener('seeked', onSeeked);
+      video.currentTime = time;
+    });
+  }
+
+  // Recognized faces group by person; unknown ones by distance to each
+  // unknown individual's running centroid
+  private static findSubject(subjects: Map<string, VideoSubject>, face: DetectedFace): VideoSubject {
+    const match = FaceDetectionService.compareFaces(face);
+
+    if (match) {
+      const key = match.personId ? `person:${match.personId}` : `face:${match.id}`;
+      let subject = subjects.get(key);
+      if (!subject) {
+        subject = this.createSubject(key, 'person', match.name || 'Unknown', face.descriptor!, match.personId);
+        subjects.set(key, subject);
+      }
+      return subject;
+    }
+
+    const { matchDistance } = RecognitionSettingsService.getSettings();
+    let nearest: VideoSubject | undefined;
+    let nearestDistance = Infinity;
+
+    subjects.forEach(subject => {
+      if (subject.kind !== 'unknown') return;
+      const distance = faceapi.euclideanDistance(face.descriptor!, subject.centroid);
+      if (distance < nearestDistance) {
+        nearest = subject;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest && nearestDistance <= matchDistance) {
+      this.updateCentroid(nearest, face.descriptor!);
+      return nearest;
+    }
+
+    const unknownCount = Array.from(subjects.values()).filter(subject => subject.kind === 'unknown').length;
+    const key = `unknown:${unknownCount + 1}`;
+    const subject = this.createSubject(key, 'unknown', `Unknown ${unknownCount + 1}`, face.descriptor!);
+    subjects.set(key, subject);
+    return subject;
+  }
+
+  private static createSubject(
+    key: string,
+    kind: VideoSubject['kind'],
+    name: string,
+    descriptor: Float32Array,
+    personId?: string
+  ): VideoSubject {
+    return { key, kind, name, personId, segments: [], sightings: 0, centroid: new Float32Array(descriptor) };
+  }
+
+  private static updateCentroid(subject: VideoSubject, descriptor: Float32Array): void {
+    const weight = 1 / (subject.sightings + 1);
+    for (let i = 0; i < subject.centroid.length; i++) {
+      subject.centroid[i] += (descriptor[i] - subject.centroid[i]) * weight;
+    }
+  }
+
+  private static addSighting(subject: VideoSubject, time: number, stride: number): void {
+    const last = subject.segments[subject.segments.length - 1];
+
+    // The subject was already counted in this frame
+    if (last && last.end === time + stride) return;
+
+    subject.sightings++;
+    if (last && time - last.end <= stride * (SEGMENT_GAP_STRIDES - 1)) {
+      last.end = time + stride;
+    } else {
+      subject.segments.push({ start: time, end: time + stride });
+    }
+  }
+
+  private static keepBestCrop(subject: VideoSubject, canvas: HTMLCanvasElement, face: DetectedFace, time: number): void {
+    const quality = FaceQualityService.assess(canvas, face.detection.box, face.landmarks);
+    if (quality.level === 'reject' || (subject.best && subject.best.quality >= quality.score)) return;
+
+    const image = FaceCropper.crop(canvas, face.detection.box, face.landmarks);
+    if (!image) return;
+
+    subject.best = { face: { ...face, image, quality: quality.score }, quality: quality.score, time };
+  }
+}
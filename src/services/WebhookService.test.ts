@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebhookDeliveryRow } from '@/services/storage';
+import { WebhookEndpoint, WebhookService } from './WebhookService';
+
+const insert = vi.fn(async (row: Partial<WebhookDeliveryRow>) => ({ ...row, id: 'delivery-1', attempts: 0 }) as WebhookDeliveryRow);
+const update = vi.fn(async () => {});
+
+vi.mock('@/services/storage', () => ({
+  getRepositories: () => ({
+    webhookDeliveries: { insert, update, list: async () => [] },
+    getCurrentUserId: async () => 'user-1',
+  }),
+}));
+
+const endpoint: WebhookEndpoint = {
+  id: 'endpoint-1',
+  name: 'Receiver',
+  url: 'https://example.com/hooks/faces',
+  secret: 'whsec_test',
+  enabled: true,
+};
+
+const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>();
+
+// Lets pending promise callbacks run without moving the clock
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('WebhookService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('window', { location: { origin: 'http://localhost:8080' } });
+    // WebCrypto settles outside the fake clock; signing is checked on its own below
+    vi.spyOn(WebhookService, 'sign').mockResolvedValue('sha256=test');
+    fetchMock.mockReset();
+    insert.mockClear();
+    update.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off 2s, 4s, 8s and 16s between attempts and gives up after five', async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 503 }));
+
+    const delivery = WebhookService.sendTestEvent(endpoint);
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    for (const [waitMs, attempts] of [[2000, 2], [4000, 3], [8000, 4], [16000, 5]]) {
+      await vi.advanceTimersByTimeAsync(waitMs - 1);
+      expect(fetchMock).toHaveBeenCalledTimes(attempts - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(attempts);
+    }
+
+    const result = await delivery;
+    expect(result).toMatchObject({ status: 'failed', attempts: 5, response_status: 503 });
+    expect(update).toHaveBeenCalledTimes(5);
+    expect(update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({ status: 'failed' }), { userId: 'user-1' });
+  });
+
+  it.each([500, 503, 408, 429])('retries after HTTP %i', async status => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const delivery = WebhookService.sendTestEvent(endpoint);
+    await flush();
+    expect(update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({ status: 'pending' }), expect.anything());
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await delivery).toMatchObject({ status: 'delivered', attempts: 2, response_status: 204 });
+  });
+
+  it('retries after a network error', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    const delivery = WebhookService.sendTestEvent(endpoint);
+    await flush();
+    expect(update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({ error: 'Failed to fetch' }), expect.anything());
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await delivery).toMatchObject({ status: 'delivered', attempts: 2 });
+  });
+
+  it.each([400, 401, 404, 410])('does not retry after HTTP %i', async status => {
+    fetchMock.mockResolvedValue(new Response(null, { status }));
+
+    const delivery = WebhookService.sendTestEvent(endpoint);
+    await flush();
+
+    expect(await delivery).toMatchObject({ status: 'failed', attempts: 1, response_status: status });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the event ID, timestamp and signature headers', async () => {
+    vi.setSystemTime(new Date('2023-11-14T22:13:20Z'));
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await WebhookService.sendTestEvent(endpoint);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = init.body as string;
+    expect(url).toBe(endpoint.url);
+    expect(init.headers).toMatchObject({
+      'X-Webhook-Id': JSON.parse(body).id,
+      'X-Webhook-Timestamp': '1700000000',
+      'X-Webhook-Signature': 'sha256=test',
+    });
+    expect(WebhookService.sign).toHaveBeenCalledWith(endpoint.secret, '1700000000', body);
+  });
+});
+
+describe('WebhookService.sign', () => {
+  it('matches a known HMAC-SHA256 of "<timestamp>.<body>"', async () => {
+    const signature = await WebhookService.sign('whsec_test', '1700000000', '{"id":"evt_1"}');
+
+    expect(signature).toBe('sha256=c89214b5b5da833daed6f0b8c5bb6bd58cea9022bd80ccc78230f3942d632925');
+  });
+});
@@ -0,0 +1,297 @@
+import { getRepositories, WebhookDeliveryRow } from "@/services/storage";
+import { Json } from "@/integrations/supabase/types";
+import { RecognitionCamera } from "./NotificationsService";
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string; // Shared with the receiver, which checks the signature with it
+  enabled: boolean;
+}
+
+export type WebhookEventType = 'recognition' | 'unknown_face' | 'test';
+
+export interface WebhookPayload {
+  id: string; // Same on every retry, so receivers can drop duplicates
+  type: WebhookEventType;
+  occurred_at: string;
+  notification_id: string | null;
+  person: { id: string | null; name: string } | null; // Null for unknown faces
+  face_id: string | null;
+  confidence: number | null;
+  camera: RecognitionCamera | null;
+  image_url: string | null; // Signed or local URL; may expire
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+const MAX_ATTEMPTS = 5;
+const INITIAL_BACKOFF_MS = 2000; // Doubles after every failed attempt
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Served by the webhookReceiver plugin in vite.config.ts
+export const LOCAL_WEBHOOK_RECEIVER_URL = '/__webhook-receiver';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Delivers recognition events to the user's webhook endpoints. Each request
+ * carries an HMAC-SHA256 signature of `<timestamp>.<body>` made with the
+ * endpoint's secret, and failed attempts are retried with exponential backoff.
+ * Every delivery is logged with its attempts and the last response.
+ */
+export class WebhookService {
+  private static endpoints: WebhookEndpoint[] = [];
+  private static listeners: Set<(endpoints: WebhookEndpoint[]) => void> = new Set();
+
+  static getEndpoints(): WebhookEndpoint[] {
+    return this.endpoints;
+  }
+
+  /**
+   * Apply endpoints loaded from the user's profile row
+   */
+  static applyProfileEndpoints(saved: unknown): void {
+    this.setEndpoints(Array.isArray(saved) ? saved : []);
+  }
+
+  /**
+   * Update endpoints in memory; persisting them to the profile is up to the caller
+   */
+  static updateEndpoints(endpoints: WebhookEndpoint[]): WebhookEndpoint[] {
+    this.setEndpoints(endpoints);
+    return this.endpoints;
+  }
+
+  /**
+   * Subscribe to endpoint changes; returns an unsubscribe function
+   */
+  static subscribe(listener: (endpoints: WebhookEndpoint[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static createEndpoint(): WebhookEndpoint {
+    return {
+      id: crypto.randomUUID(),
+      name: 'New webhook',
+      url: '',
+      secret: this.generateSecret(),
+      enabled: true,
+    };
+  }
+
+  static generateSecret(): string {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return `whsec_${toHex(bytes.buffer)}`;
+  }
+
+  static normalize(endpoint: WebhookEndpoint): WebhookEndpoint {
+    const defaults = this.createEndpoint();
+    return {
+      id: typeof endpoint.id === 'string' && endpoint.id ? endpoint.id : defaults.id,
+      name: typeof endpoint.name === 'string' && endpoint.name.trim() ? endpoint.name.trim() : defaults.name,
+      url: typeof endpoint.url === 'string' ? endpoint.url.trim() : '',
+      secret: typeof endpoint.secret === 'string' && endpoint.secret ? endpoint.secret : defaults.secret,
+      enabled: endpoint.enabled !== false,
+    };
+  }
+
+  /**
+   * Absolute URL for an endpoint; relative URLs such as the local receiver resolve against the app
+   */
+  static resolveUrl(url: string): string {
+    return new URL(url, window.location.origin).toString();
+  }
+
+  /**
+   * Send an event to every enabled endpoint. Deliveries run in the background.
+   */
+  static dispatch(payload: WebhookPayload): void {
+    this.endpoints
+      .filter(endpoint => endpoint.enabled && endpoint.url)
+      .forEach(endpoint => {
+        this.deliver(endpoint, payload).catch(error => {
+          console.error(`Error delivering webhook to ${endpoint.name}:`, error);
+        });
+      });
+  }
+
+  /**
+   * Build and dispatch the event for a stored recognition notification
+   */
+  static async dispatchRecognition(event: {
+    notificationId: string;
+    recognizedAt: string;
+    faceName: string;
+    faceId?: string;
+    personId?: string;
+    confidence?: number;
+    unknown?: boolean;
+    camera?: RecognitionCamera;
+    imagePath?: string | null;
+  }): Promise<void> {
+    if (!this.endpoints.some(endpoint => endpoint.enabled && endpoint.url)) return;
+
+    let imageUrl: string | null = null;
+    if (event.imagePath) {
+      try {
+        const url = await getRepositories().images.getUrl(event.imagePath);
+        // Object URLs of the IndexedDB image store only exist inside this tab
+        imageUrl = url.startsWith('blob:') ? null : this.resolveUrl(url);
+      } catch (error) {
+        console.error('Error resolving webhook image URL:', error);
+      }
+    }
+
+    this.dispatch({
+      id: crypto.randomUUID(),
+      type: event.unknown ? 'unknown_face' : 'recognition',
+      occurred_at: event.recognizedAt,
+      notification_id: event.notificationId,
+      person: event.unknown ? null : { id: event.personId ?? null, name: event.faceName },
+      face_id: event.faceId ?? null,
+      confidence: event.confidence ?? null,
+      camera: event.camera ?? null,
+      image_url: imageUrl,
+    });
+  }
+
+  /**
+   * Send a sample event to one endpoint and wait for the outcome
+   */
+  static sendTestEvent(endpoint: WebhookEndpoint): Promise<WebhookDeliveryRow> {
+    return this.deliver(endpoint, {
+      id: crypto.randomUUID(),
+      type: 'test',
+      occurred_at: new Date().toISOString(),
+      notification_id: null,
+      person: { id: null, name: 'Test Person' },
+      face_id: null,
+      confidence: 0.92,
+      camera: { id: 'test', label: 'Test camera' },
+      image_url: null,
+    });
+  }
+
+  static async getDeliveries(limit: number = 50): Promise<WebhookDeliveryRow[]> {
+    try {
+      const { webhookDeliveries, getCurrentUserId } = getRepositories();
+      const userId = await getCurrentUserId();
+      return await webhookDeliveries.list({ userId, limit });
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Value of the X-Webhook-Signature header for a request body
+   */
+  static async sign(secret: string, timestamp: string, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    return `sha256=${toHex(signature)}`;
+  }
+
+  /**
+   * POST one payload to one endpoint, retrying until it is accepted or attempts run out
+   */
+  private static async deliver(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<WebhookDeliveryRow> {
+    const { webhookDeliveries, getCurrentUserId } = getRepositories();
+    const userId = await getCurrentUserId();
+    let delivery = await webhookDeliveries.insert({
+      user_id: userId,
+      endpoint_id: endpoint.id,
+      endpoint_url: endpoint.url,
+      event_type: payload.type,
+      payload: payload as unknown as Json,
+    });
+
+    const body = JSON.stringify(payload);
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const result = await this.attempt(endpoint, body, payload.id);
+      const done = result.ok || !result.retryable || attempt === MAX_ATTEMPTS;
+      const status: WebhookDeliveryStatus = result.ok ? 'delivered' : done ? 'failed' : 'pending';
+
+      delivery = {
+        ...delivery,
+        attempts: attempt,
+        status,
+        response_status: result.status,
+        error: result.error,
+        delivered_at: result.ok ? new Date().toISOString() : null,
+      };
+      await webhookDeliveries.update(delivery.id, {
+        attempts: delivery.attempts,
+        status: delivery.status,
+        response_status: delivery.response_status,
+        error: delivery.error,
+        delivered_at: delivery.delivered_at,
+      }, { userId });
+
+      if (done) break;
+      await sleep(INITIAL_BACKOFF_MS * 2 ** (attempt - 1));
+    }
+
+    return delivery;
+  }
+
+  private static async attempt(endpoint: WebhookEndpoint, body: string, eventId: string) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(this.resolveUrl(endpoint.url), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': eventId,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': await this.sign(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      // Other client errors will not succeed on a retry
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      return {
+        ok: response.ok,
+        retryable,
+        status: response.status,
+        error: response.ok ? null : `HTTP ${response.status} ${response.statusText}`.trim(),
+      };
+    } catch (error) {
+      // Network errors, timeouts and CORS rejections
+      return {
+        ok: false,
+        retryable: true,
+        status: null,
+        error: controller.signal.aborted ? 'Request timed out' : (error as Error).message,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private static setEndpoints(endpoints: WebhookEndpoint[]): void {
+    this.endpoints = endpoints.map(endpoint => this.normalize(endpoint));
+    this.listeners.forEach(listener => listener(this.endpoints));
+  }
+}
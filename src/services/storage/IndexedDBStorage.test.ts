@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { createIndexedDBStorage, IndexedDBImageRepository, LOCAL_USER_ID } from './IndexedDBStorage';
+import { NotificationRow } from './types';
+
+const storage = createIndexedDBStorage();
+const query = { userId: LOCAL_USER_ID };
+
+describe('IndexedDB storage', () => {
+  it('round-trips a person with faces and notifications', async () => {
+    const person = await storage.persons.insert({ name: 'Ada', user_id: LOCAL_USER_ID });
+    const face = await storage.faces.insert({
+      descriptor: [0.1, 0.2, 0.3],
+      image: 'data:image/jpeg;base64,AAAA',
+      name: 'Ada',
+      person_id: person.id,
+      user_id: LOCAL_USER_ID,
+    });
+
+    const [listed] = await storage.faces.list({ ...query, personId: person.id });
+    expect(listed.id).toBe(face.id);
+    expect(listed.descriptor).toEqual([0.1, 0.2, 0.3]);
+    // Lists leave the inline image out, like the hosted backend
+    expect(listed.image).toBeNull();
+    expect((await storage.faces.getById(face.id, query))?.image).toBe('data:image/jpeg;base64,AAAA');
+
+    await storage.persons.update(person.id, { notes: 'Front door regular' }, query);
+    expect((await storage.persons.getById(person.id, query))?.notes).toBe('Front door regular');
+
+    const received: NotificationRow[] = [];
+    const unsubscribe = storage.notifications.subscribe(row => received.push(row), query);
+    const notification = await storage.notifications.insert({
+      face_id: face.id,
+      face_name: 'Ada',
+      user_id: LOCAL_USER_ID,
+    });
+    unsubscribe();
+
+    expect(received.map(row => row.id)).toEqual([notification.id]);
+    expect(notification).toMatchObject({ is_read: false, kind: 'recognition', resolution: null, clip_path: null });
+
+    await storage.notifications.markAllAsRead(query);
+    const [stored] = await storage.notifications.list({ ...query, faceIds: [face.id] });
+    expect(stored.is_read).toBe(true);
+
+    // Deleting the person cascades to its faces
+    await storage.persons.delete(person.id, query);
+    expect(await storage.faces.getById(face.id, query)).toBeNull();
+  });
+
+  it('treats an undefined user filter as no filter', async () => {
+    const person = await storage.persons.insert({ name: 'Unowned' });
+
+    expect((await storage.persons.list({ userId: undefined })).map(row => row.id)).toContain(person.id);
+    expect((await storage.persons.list(query)).map(row => row.id)).not.toContain(person.id);
+  });
+
+  it('stores images and clips without a server', async () => {
+    const images = new IndexedDBImageRepository();
+    const path = `${LOCAL_USER_ID}/clips/event.webm`;
+    await images.upload(path, new Blob(['clip bytes'], { type: 'video/webm' }));
+
+    const blob = await fetch(await images.getUrl(path)).then(response => response.blob());
+    expect(blob.type).toBe('video/webm');
+    expect(await blob.text()).toBe('clip bytes');
+
+    await images.remove([path]);
+    await expect(images.getUrl(path)).rejects.toThrow('Image not found');
+  });
+});
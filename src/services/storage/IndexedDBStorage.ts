@@ -0,0 +1,383 @@
+import {
+  FaceQuery,
+  FaceRepository,
+  ImageRepository,
+  NotificationInsert,
+  NotificationQuery,
+  NotificationRepository,
+  NotificationRow,
+  NotificationUpdate,
+  PersonInsert,
+  PersonQuery,
+  PersonRepository,
+  PersonRow,
+  PersonUpdate,
+  StorageRepositories,
+  StoredFaceInsert,
+  StoredFaceRow,
+  StoredFaceUpdate,
+  WebhookDeliveryInsert,
+  WebhookDeliveryQuery,
+  WebhookDeliveryRepository,
+  WebhookDeliveryRow,
+  WebhookDeliveryUpdate,
+} from './types';
+
+const DATABASE_NAME = 'face-finder';
+const DATABASE_VERSION = 3;
+
+// The local backend has no accounts, so every row belongs to this device user
+export const LOCAL_USER_ID = '00000000-0000-4000-8000-000000000000';
+
+type StoreName = 'stored_faces' | 'persons' | 'recognition_notifications' | 'webhook_deliveries' | 'images';
+
+// Image and clip bytes, keyed by object path. Kept as an ArrayBuffer because
+// not every browser can store Blobs in IndexedDB.
+interface StoredImageRecord {
+  path: string;
+  type: string;
+  data: ArrayBuffer;
+  created_at: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+
+        // Stores are added per version so existing databases keep their rows
+        if (event.oldVersion < 1) {
+          const faces = db.createObjectStore('stored_faces', { keyPath: 'id' });
+          faces.createIndex('user_id', 'user_id');
+          faces.createIndex('person_id', 'person_id');
+
+          const persons = db.createObjectStore('persons', { keyPath: 'id' });
+          persons.createIndex('user_id', 'user_id');
+
+          const notifications = db.createObjectStore('recognition_notifications', { keyPath: 'id' });
+          notifications.createIndex('user_id', 'user_id');
+          notifications.createIndex('face_id', 'face_id');
+        }
+
+        if (event.oldVersion < 2) {
+          const deliveries = db.createObjectStore('webhook_deliveries', { keyPath: 'id' });
+          deliveries.createIndex('user_id', 'user_id');
+        }
+
+        if (event.oldVersion < 3) {
+          db.createObjectStore('images', { keyPath: 'path' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify<T[]>(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+const getOne = async <T>(storeName: StoreName, id: string): Promise<T | null> => {
+  const db = await openDatabase();
+  const row = await promisify<T | undefined>(db.transaction(storeName).objectStore(storeName).get(id));
+  return row ?? null;
+};
+
+const putOne = async <T>(storeName: StoreName, row: T): Promise<T> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(row));
+  return row;
+};
+
+const deleteMany = async (storeName: StoreName, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  ids.forEach(id => store.delete(id));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const newId = (): string => crypto.randomUUID();
+const now = (): string => new Date().toISOString();
+
+const byNewest = <T>(key: keyof T) => (a: T, b: T) =>
+  String(b[key] ?? '').localeCompare(String(a[key] ?? ''));
+
+class IndexedDBFaceRepository implements FaceRepository {
+  async insert(face: StoredFaceInsert): Promise<StoredFaceRow> {
+    const timestamp = now();
+    return putOne<StoredFaceRow>('stored_faces', {
+      age: null,
+      gender: null,
+      last_seen: null,
+      name: null,
+      notes: null,
+      image: null,
+      image_path: null,
+      notify_on_recognition: null,
+      person_id: null,
+      quality_score: null,
+      thumbnail: null,
+      user_id: null,
+      ...face,
+      id: face.id ?? newId(),
+      created_at: face.created_at ?? timestamp,
+      updated_at: face.updated_at ?? timestamp,
+    });
+  }
+
+  async getById(id: string, query: FaceQuery = {}): Promise<StoredFaceRow | null> {
+    const row = await getOne<StoredFaceRow>('stored_faces', id);
+    if (!row || (query.userId !== undefined && row.user_id !== query.userId)) return null;
+    return row;
+  }
+
+  async list(query: FaceQuery = {}): Promise<StoredFaceRow[]> {
+    const rows = await getAll<StoredFaceRow>('stored_faces');
+
+    return rows
+      .filter(row => query.userId === undefined || row.user_id === query.userId)
+      .filter(row => !query.personId || row.person_id === query.personId)
+      .filter(row => !query.ids || query.ids.includes(row.id))
+      .sort(byNewest<StoredFaceRow>('created_at'))
+      // Match the hosted backend, which leaves inline images out of lists
+      .map(row => ({ ...row, image: null }));
+  }
+
+  async update(id: string, changes: StoredFaceUpdate, query: FaceQuery = {}): Promise<void> {
+    const row = await this.getById(id, query);
+    if (!row) return;
+
+    await putOne('stored_faces', { ...row, ...changes, id });
+  }
+
+  async delete(id: string, query: FaceQuery = {}): Promise<void> {
+    const row = await this.getById(id, query);
+    if (!row) return;
+
+    await deleteMany('stored_faces', [id]);
+  }
+}
+
+class IndexedDBPersonRepository implements PersonRepository {
+  async insert(person: PersonInsert): Promise<PersonRow> {
+    const timestamp = now();
+    return putOne<PersonRow>('persons', {
+      name: '',
+      notes: null,
+      notification_cooldown_seconds: null,
+      notify_on_recognition: null,
+      user_id: null,
+      ...person,
+      id: person.id ?? newId(),
+      created_at: person.created_at ?? timestamp,
+      updated_at: person.updated_at ?? timestamp,
+    });
+  }
+
+  async getById(id: string, query: PersonQuery = {}): Promise<PersonRow | null> {
+    const row = await getOne<PersonRow>('persons', id);
+    if (!row || (query.userId !== undefined && row.user_id !== query.userId)) return null;
+    return row;
+  }
+
+  async list(query: PersonQuery = {}): Promise<PersonRow[]> {
+    const rows = await getAll<PersonRow>('persons');
+    return rows.filter(row => query.userId === undefined || row.user_id === query.userId);
+  }
+
+  async update(id: string, changes: PersonUpdate, query: PersonQuery = {}): Promise<void> {
+    const row = await this.getById(id, query);
+    if (!row) return;
+
+    await putOne('persons', { ...row, ...changes, id });
+  }
+
+  async delete(id: string, query: PersonQuery = {}): Promise<void> {
+    const row = await this.getById(id, query);
+    if (!row) return;
+
+    // Mirror the foreign key cascade of the hosted schema
+    const faces = await getAll<StoredFaceRow>('stored_faces');
+    await deleteMany('stored_faces', faces.filter(face => face.person_id === id).map(face => face.id));
+    await deleteMany('persons', [id]);
+  }
+}
+
+class IndexedDBNotificationRepository implements NotificationRepository {
+  private listeners = new Set<(notification: NotificationRow) => void>();
+
+  async insert(notification: NotificationInsert): Promise<NotificationRow> {
+    const row = await putOne<NotificationRow>('recognition_notifications', {
+      camera_id: null,
+      camera_label: null,
+      clip_path: null,
+      descriptor: null,
+      face_id: null,
+      image: null,
+      image_path: null,
+      is_read: false,
+      kind: 'recognition',
+      notes: null,
+      resolution: null,
+      thumbnail: null,
+      user_id: null,
+      ...notification,
+      id: notification.id ?? newId(),
+      recognized_at: notification.recognized_at ?? now(),
+    });
+
+    this.listeners.forEach(listener => listener(row));
+    return row;
+  }
+
+  async list(query: NotificationQuery = {}): Promise<NotificationRow[]> {
+    const rows = await getAll<NotificationRow>('recognition_notifications');
+    const filtered = rows
+      .filter(row => query.userId === undefined || row.user_id === query.userId)
+      .filter(row => !query.faceIds || query.faceIds.includes(row.face_id))
+      .sort(byNewest<NotificationRow>('recognized_at'));
+
+    return query.limit ? filtered.slice(0, query.limit) : filtered;
+  }
+
+  async update(id: string, changes: NotificationUpdate, query: NotificationQuery = {}): Promise<void> {
+    const row = await getOne<NotificationRow>('recognition_notifications', id);
+    if (!row || (query.userId !== undefined && row.user_id !== query.userId)) return;
+
+    await putOne('recognition_notifications', { ...row, ...changes, id });
+  }
+
+  async markAllAsRead(query: NotificationQuery = {}): Promise<void> {
+    const unread = (await this.list({ ...query, limit: undefined })).filter(row => !row.is_read);
+    for (const row of unread) {
+      await putOne('recognition_notifications', { ...row, is_read: true });
+    }
+  }
+
+  subscribe(callback: (notification: NotificationRow) => void, query: NotificationQuery = {}): () => void {
+    const listener = (notification: NotificationRow) => {
+      if (query.userId !== undefined && notification.user_id !== query.userId) return;
+      callback(notification);
+    };
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+class IndexedDBWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  async insert(delivery: WebhookDeliveryInsert): Promise<WebhookDeliveryRow> {
+    return putOne<WebhookDeliveryRow>('webhook_deliveries', {
+      attempts: 0,
+      delivered_at: null,
+      error: null,
+      response_status: null,
+      status: 'pending',
+      user_id: null,
+      ...delivery,
+      id: delivery.id ?? newId(),
+      created_at: delivery.created_at ?? now(),
+    });
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDeliveryRow[]> {
+    const rows = await getAll<WebhookDeliveryRow>('webhook_deliveries');
+    const filtered = rows
+      .filter(row => query.userId === undefined || row.user_id === query.userId)
+      .sort(byNewest<WebhookDeliveryRow>('created_at'));
+
+    return query.limit ? filtered.slice(0, query.limit) : filtered;
+  }
+
+  async update(id: string, changes: WebhookDeliveryUpdate, query: WebhookDeliveryQuery = {}): Promise<void> {
+    const row = await getOne<WebhookDeliveryRow>('webhook_deliveries', id);
+    if (!row || (query.userId !== undefined && row.user_id !== query.userId)) return;
+
+    await putOne('webhook_deliveries', { ...row, ...changes, id });
+  }
+}
+
+/**
+ * Object storage inside the same database, so images and clips work offline
+ * and in production builds without any server
+ */
+export class IndexedDBImageRepository implements ImageRepository {
+  kind = 'indexeddb' as const;
+  // One object URL per path, released when the image is removed
+  private urls = new Map<string, string>();
+
+  async upload(path: string, image: Blob): Promise<void> {
+    await putOne<StoredImageRecord>('images', {
+      path,
+      type: image.type || 'image/jpeg',
+      data: await image.arrayBuffer(),
+      created_at: now(),
+    });
+    this.revoke(path);
+  }
+
+  async getUrl(path: string): Promise<string> {
+    const cached = this.urls.get(path);
+    if (cached) return cached;
+
+    const record = await getOne<StoredImageRecord>('images', path);
+    if (!record) throw new Error(`Image not found: ${path}`);
+
+    const url = URL.createObjectURL(new Blob([record.data], { type: record.type }));
+    this.urls.set(path, url);
+    return url;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    await deleteMany('images', paths);
+    paths.forEach(path => this.revoke(path));
+  }
+
+  private revoke(path: string): void {
+    const url = this.urls.get(path);
+    if (!url) return;
+
+    URL.revokeObjectURL(url);
+    this.urls.delete(path);
+  }
+}
+
+export const createIndexedDBStorage = (
+  images: ImageRepository = new IndexedDBImageRepository()
+): StorageRepositories => ({
+  kind: 'indexeddb',
+  faces: new IndexedDBFaceRepository(),
+  persons: new IndexedDBPersonRepository(),
+  notifications: new IndexedDBNotificationRepository(),
+  webhookDeliveries: new IndexedDBWebhookDeliveryRepository(),
+  images,
+  getCurrentUserId: async () => LOCAL_USER_ID,
+});
@@ -0,0 +1,42 @@
+import { ImageRepository } from './types';
+
+// Served by the localImageStorage plugin in vite.config.ts
+const LOCAL_IMAGES_URL = '/__local-images';
+
+const toUrl = (path: string): string =>
+  `${LOCAL_IMAGES_URL}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+/**
+ * Development stand-in for the storage bucket: images are written to the
+ * `.local-images` folder of the project by the Vite dev server. Only used
+ * when `VITE_IMAGE_STORAGE=local`.
+ */
+export class LocalFileImageRepository implements ImageRepository {
+  kind = 'local' as const;
+
+  async upload(path: string, image: Blob): Promise<void> {
+    const response = await fetch(toUrl(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': image.type || 'image/jpeg' },
+      body: image,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to store image ${path}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async getUrl(path: string): Promise<string> {
+    return toUrl(path);
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    await Promise.all(paths.map(async path => {
+      const response = await fetch(toUrl(path), { method: 'DELETE' });
+      // Already gone is fine
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete image ${path}: ${response.status} ${response.statusText}`);
+      }
+    }));
+  }
+}
@@ -0,0 +1,324 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  FaceQuery,
+  FaceRepository,
+  ImageRepository,
+  NotificationInsert,
+  NotificationQuery,
+  NotificationRepository,
+  NotificationRow,
+  NotificationUpdate,
+  PersonInsert,
+  PersonQuery,
+  PersonRepository,
+  PersonRow,
+  PersonUpdate,
+  StorageRepositories,
+  StoredFaceInsert,
+  StoredFaceRow,
+  StoredFaceUpdate,
+  WebhookDeliveryInsert,
+  WebhookDeliveryQuery,
+  WebhookDeliveryRepository,
+  WebhookDeliveryRow,
+  WebhookDeliveryUpdate,
+} from './types';
+
+// Every column except the inline image, which legacy rows fill with a full data URL
+const FACE_LIST_COLUMNS = 'id, age, created_at, descriptor, gender, image_path, last_seen, name, notes, notify_on_recognition, person_id, quality_score, thumbnail, updated_at, user_id';
+
+const IMAGE_BUCKET = 'face-images';
+// Signed URLs are cached by FaceImageService, so they only need to outlive a session
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+class SupabaseFaceRepository implements FaceRepository {
+  async insert(face: StoredFaceInsert): Promise<StoredFaceRow> {
+    const { data, error } = await supabase
+      .from('stored_faces')
+      .insert(face)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getById(id: string, query: FaceQuery = {}): Promise<StoredFaceRow | null> {
+    let request = supabase
+      .from('stored_faces')
+      .select('*')
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { data, error } = await request.maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async list(query: FaceQuery = {}): Promise<StoredFaceRow[]> {
+    let request = supabase
+      .from('stored_faces')
+      .select(FACE_LIST_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+    if (query.personId) request = request.eq('person_id', query.personId);
+    if (query.ids) request = request.in('id', query.ids);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, image: null }));
+  }
+
+  async update(id: string, changes: StoredFaceUpdate, query: FaceQuery = {}): Promise<void> {
+    let request = supabase
+      .from('stored_faces')
+      .update(changes)
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+
+  async delete(id: string, query: FaceQuery = {}): Promise<void> {
+    let request = supabase
+      .from('stored_faces')
+      .delete()
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+}
+
+class SupabasePersonRepository implements PersonRepository {
+  async insert(person: PersonInsert): Promise<PersonRow> {
+    const { data, error } = await supabase
+      .from('persons')
+      .insert(person)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getById(id: string, query: PersonQuery = {}): Promise<PersonRow | null> {
+    let request = supabase
+      .from('persons')
+      .select('*')
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { data, error } = await request.maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async list(query: PersonQuery = {}): Promise<PersonRow[]> {
+    let request = supabase
+      .from('persons')
+      .select('*');
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async update(id: string, changes: PersonUpdate, query: PersonQuery = {}): Promise<void> {
+    let request = supabase
+      .from('persons')
+      .update(changes)
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+
+  async delete(id: string, query: PersonQuery = {}): Promise<void> {
+    // Faces reference persons by foreign key, so the database cascades the delete
+    let request = supabase
+      .from('persons')
+      .delete()
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+}
+
+class SupabaseNotificationRepository implements NotificationRepository {
+  async insert(notification: NotificationInsert): Promise<NotificationRow> {
+    const { data, error } = await supabase
+      .from('recognition_notifications')
+      .insert(notification)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async list(query: NotificationQuery = {}): Promise<NotificationRow[]> {
+    let request = supabase
+      .from('recognition_notifications')
+      .select('*')
+      .order('recognized_at', { ascending: false });
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+    if (query.faceIds) request = request.in('face_id', query.faceIds);
+    if (query.limit) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async update(id: string, changes: NotificationUpdate, query: NotificationQuery = {}): Promise<void> {
+    let request = supabase
+      .from('recognition_notifications')
+      .update(changes)
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+
+  async markAllAsRead(query: NotificationQuery = {}): Promise<void> {
+    let request = supabase
+      .from('recognition_notifications')
+      .update({ is_read: true })
+      .eq('is_read', false);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+
+  subscribe(callback: (notification: NotificationRow) => void, query: NotificationQuery = {}): () => void {
+    const channel = supabase
+      .channel(query.userId ? `public:recognition_notifications:${query.userId}` : 'public:recognition_notifications')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'recognition_notifications',
+          // Realtime filters server-side, so other users' inserts never reach this client
+          ...(query.userId !== undefined ? { filter: `user_id=eq.${query.userId}` } : {})
+        },
+        (payload) => {
+          console.log('New notification received:', payload);
+          callback(payload.new as NotificationRow);
+        }
+      )
+      .subscribe((status) => {
+        console.log('Subscription status:', status);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+class SupabaseWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  async insert(delivery: WebhookDeliveryInsert): Promise<WebhookDeliveryRow> {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .insert(delivery)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDeliveryRow[]> {
+    let request = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+    if (query.limit) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async update(id: string, changes: WebhookDeliveryUpdate, query: WebhookDeliveryQuery = {}): Promise<void> {
+    let request = supabase
+      .from('webhook_deliveries')
+      .update(changes)
+      .eq('id', id);
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+
+    const { error } = await request;
+    if (error) throw error;
+  }
+}
+
+export class SupabaseImageRepository implements ImageRepository {
+  kind = 'supabase' as const;
+
+  // Callers upload to fresh paths, and the bucket has no update policy to overwrite with
+  async upload(path: string, image: Blob): Promise<void> {
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, image, { contentType: image.type || 'image/jpeg' });
+
+    if (error) throw error;
+  }
+
+  async getUrl(path: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    return data.signedUrl;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .remove(paths);
+
+    if (error) throw error;
+  }
+}
+
+export const createSupabaseStorage = (
+  images: ImageRepository = new SupabaseImageRepository()
+): StorageRepositories => ({
+  kind: 'supabase',
+  faces: new SupabaseFaceRepository(),
+  persons: new SupabasePersonRepository(),
+  notifications: new SupabaseNotificationRepository(),
+  webhookDeliveries: new SupabaseWebhookDeliveryRepository(),
+  images,
+  getCurrentUserId: async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  },
+});
@@ -0,0 +1,67 @@
+import { createIndexedDBStorage, IndexedDBImageRepository } from './IndexedDBStorage';
+import { createSupabaseStorage, SupabaseImageRepository } from './SupabaseStorage';
+import { LocalFileImageRepository } from './LocalFileImageStorage';
+import { ImageRepository, StorageBackendKind, StorageRepositories } from './types';
+
+export * from './types';
+export { LOCAL_USER_ID } from './IndexedDBStorage';
+
+let repositories: StorageRepositories | null = null;
+
+/**
+ * Resolve the backend from `VITE_STORAGE_BACKEND`, defaulting to the hosted Supabase project
+ */
+const resolveBackendKind = (): StorageBackendKind => {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND;
+  if (configured === 'indexeddb' || configured === 'supabase') {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`Unknown storage backend "${configured}", falling back to supabase`);
+  }
+  return 'supabase';
+};
+
+/**
+ * Images follow the backend (bucket for Supabase, an object store for IndexedDB)
+ * unless `VITE_IMAGE_STORAGE` picks one explicitly. `local` writes them to the
+ * project folder through the dev server and is only available under `vite`.
+ */
+const createImageRepository = (kind: StorageBackendKind): ImageRepository => {
+  const configured = import.meta.env.VITE_IMAGE_STORAGE;
+  if (configured === 'local') return new LocalFileImageRepository();
+  if (configured === 'supabase') return new SupabaseImageRepository();
+  if (configured === 'indexeddb') return new IndexedDBImageRepository();
+
+  if (configured) {
+    console.warn(`Unknown image storage "${configured}", using the ${kind} default`);
+  }
+  return kind === 'indexeddb' ? new IndexedDBImageRepository() : new SupabaseImageRepository();
+};
+
+const createRepositories = (kind: StorageBackendKind): StorageRepositories =>
+  kind === 'indexeddb'
+    ? createIndexedDBStorage(createImageRepository(kind))
+    : createSupabaseStorage(createImageRepository(kind));
+
+/**
+ * Get the repositories for the storage backend chosen at startup
+ */
+export const getRepositories = (): StorageRepositories => {
+  if (!repositories) {
+    repositories = createRepositories(resolveBackendKind());
+    console.log(`Using ${repositories.kind} storage backend`);
+  }
+  return repositories;
+};
+
+/**
+ * Switch storage backend explicitly, e.g. from tests or an offline build
+ */
+export const setStorageBackend = (kind: StorageBackendKind): StorageRepositories => {
+  repositories = createRepositories(kind);
+  return repositories;
+};
+
+export const isLocalStorageBackend = (): boolean => getRepositories().kind === 'indexeddb';
@@ -0,0 +1,133 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotificationsService } from '@/services/NotificationsService';
+import { Person, PersonService } from '@/services/PersonService';
+import { WebhookService } from '@/services/WebhookService';
+import { createIndexedDBStorage } from './IndexedDBStorage';
+import { NotificationRow, StorageRepositories } from './types';
+
+vi.mock('@vladmandic/face-api', () => ({
+  euclideanDistance: () => Infinity,
+}));
+
+// Services reach storage through getRepositories, which returns the stub below
+let stubbed: StorageRepositories;
+vi.mock('@/services/storage', async importOriginal => ({
+  ...await importOriginal<typeof import('@/services/storage')>(),
+  getRepositories: () => stubbed,
+}));
+
+const storage = createIndexedDBStorage();
+const alice = { userId: crypto.randomUUID() };
+const bob = { userId: crypto.randomUUID() };
+
+// Alice's library: one person with one face and one alert
+const seedAlice = async () => {
+  const person = await storage.persons.insert({ name: 'Alice friend', user_id: alice.userId });
+  const face = await storage.faces.insert({
+    descriptor: [0.5, 0.5],
+    person_id: person.id,
+    user_id: alice.userId,
+  });
+  const notification = await storage.notifications.insert({
+    face_id: face.id,
+    face_name: 'Alice friend',
+    user_id: alice.userId,
+  });
+  return { person, face, notification };
+};
+
+describe('per-user isolation', () => {
+  it('never lists or fetches another account\'s faces, persons or alerts', async () => {
+    const { person, face, notification } = await seedAlice();
+
+    expect(await storage.faces.list(bob)).toEqual([]);
+    expect(await storage.faces.list({ ...bob, personId: person.id })).toEqual([]);
+    expect(await storage.faces.getById(face.id, bob)).toBeNull();
+    expect(await storage.persons.list(bob)).toEqual([]);
+    expect(await storage.persons.getById(person.id, bob)).toBeNull();
+    expect(await storage.notifications.list(bob)).toEqual([]);
+    expect(await storage.notifications.list({ ...bob, faceIds: [face.id] })).toEqual([]);
+
+    expect((await storage.faces.list(alice)).map(row => row.id)).toEqual([face.id]);
+    expect((await storage.notifications.list(alice)).map(row => row.id)).toEqual([notification.id]);
+  });
+
+  it('ignores writes to another account\'s rows', async () => {
+    const { person, face, notification } = await seedAlice();
+
+    await storage.faces.update(face.id, { name: 'Renamed by Bob' }, bob);
+    await storage.persons.update(person.id, { name: 'Renamed by Bob' }, bob);
+    await storage.notifications.update(notification.id, { is_read: true }, bob);
+    await storage.notifications.markAllAsRead(bob);
+    await storage.faces.delete(face.id, bob);
+    await storage.persons.delete(person.id, bob);
+
+    expect((await storage.faces.getById(face.id, alice))?.name).toBeNull();
+    expect((await storage.persons.getById(person.id, alice))?.name).toBe('Alice friend');
+    const [stored] = await storage.notifications.list({ ...alice, faceIds: [face.id] });
+    expect(stored.is_read).toBe(false);
+  });
+
+  it('only delivers an account\'s own alerts to its subscription', async () => {
+    const received: NotificationRow[] = [];
+    const unsubscribe = storage.notifications.subscribe(row => received.push(row), bob);
+
+    await seedAlice();
+    const own = await storage.notifications.insert({ face_name: 'Bob visitor', user_id: bob.userId });
+    unsubscribe();
+
+    expect(received.map(row => row.id)).toEqual([own.id]);
+  });
+});
+
+describe('services filter by the signed-in user', () => {
+  const userId = 'signed-in-user';
+
+  beforeEach(() => {
+    stubbed = {
+      kind: 'supabase',
+      faces: { insert: vi.fn(), getById: vi.fn(), list: vi.fn(async () => []), update: vi.fn(), delete: vi.fn() },
+      persons: { insert: vi.fn(), getById: vi.fn(), list: vi.fn(async () => []), update: vi.fn(), delete: vi.fn() },
+      notifications: { insert: vi.fn(), list: vi.fn(async () => []), update: vi.fn(), markAllAsRead: vi.fn(), subscribe: vi.fn() },
+      webhookDeliveries: { insert: vi.fn(), list: vi.fn(async () => []), update: vi.fn() },
+      images: { kind: 'supabase', upload: vi.fn(), getUrl: vi.fn(), remove: vi.fn() },
+      getCurrentUserId: async () => userId,
+    };
+  });
+
+  it('lists and updates notifications of the current user only', async () => {
+    await NotificationsService.getUnreadNotifications();
+    await NotificationsService.markAsRead('notification-1');
+    await NotificationsService.resolveUnknownAlert('notification-2', 'dismissed');
+    await NotificationsService.markAllAsRead();
+
+    const { notifications } = stubbed;
+    expect(notifications.list).toHaveBeenCalledWith(expect.objectContaining({ userId }));
+    expect(notifications.update).toHaveBeenCalledWith('notification-1', expect.anything(), { userId });
+    expect(notifications.update).toHaveBeenCalledWith('notification-2', expect.anything(), { userId });
+    expect(notifications.markAllAsRead).toHaveBeenCalledWith({ userId });
+  });
+
+  it('lists webhook deliveries of the current user only', async () => {
+    await WebhookService.getDeliveries();
+
+    expect(stubbed.webhookDeliveries.list).toHaveBeenCalledWith(expect.objectContaining({ userId }));
+  });
+
+  it('lists and updates persons of the current user only', async () => {
+    const person: Person = {
+      id: 'person-1',
+      name: 'Alice friend',
+      notifyOnRecognition: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await PersonService.getAllPersons();
+    await PersonService.updatePerson(person);
+
+    expect(stubbed.persons.list).toHaveBeenCalledWith({ userId });
+    expect(stubbed.persons.update).toHaveBeenCalledWith('person-1', expect.anything(), { userId });
+  });
+});
@@ -0,0 +1,101 @@
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+// Row shapes are shared by every backend so services can map them the same way
+export type StoredFaceRow = Tables<'stored_faces'>;
+export type StoredFaceInsert = TablesInsert<'stored_faces'>;
+export type StoredFaceUpdate = TablesUpdate<'stored_faces'>;
+
+export type PersonRow = Tables<'persons'>;
+export type PersonInsert = TablesInsert<'persons'>;
+export type PersonUpdate = TablesUpdate<'persons'>;
+
+export type NotificationRow = Tables<'recognition_notifications'>;
+export type NotificationInsert = TablesInsert<'recognition_notifications'>;
+export type NotificationUpdate = TablesUpdate<'recognition_notifications'>;
+
+export type WebhookDeliveryRow = Tables<'webhook_deliveries'>;
+export type WebhookDeliveryInsert = TablesInsert<'webhook_deliveries'>;
+export type WebhookDeliveryUpdate = TablesUpdate<'webhook_deliveries'>;
+
+export type StorageBackendKind = 'supabase' | 'indexeddb';
+export type ImageStorageKind = 'supabase' | 'indexeddb' | 'local';
+
+/**
+ * Optional filters for list queries. A filter is only applied when its value
+ * is not undefined, so `{ userId: undefined }` behaves like no filter at all.
+ */
+export interface FaceQuery {
+  userId?: string;
+  personId?: string;
+  ids?: string[];
+}
+
+export interface PersonQuery {
+  userId?: string;
+}
+
+export interface NotificationQuery {
+  userId?: string;
+  faceIds?: string[];
+  limit?: number;
+}
+
+export interface WebhookDeliveryQuery {
+  userId?: string;
+  limit?: number;
+}
+
+export interface FaceRepository {
+  insert(face: StoredFaceInsert): Promise<StoredFaceRow>;
+  getById(id: string, query?: FaceQuery): Promise<StoredFaceRow | null>;
+  /** Rows come back without the inline `image`; fetch it with getById when needed */
+  list(query?: FaceQuery): Promise<StoredFaceRow[]>;
+  update(id: string, changes: StoredFaceUpdate, query?: FaceQuery): Promise<void>;
+  delete(id: string, query?: FaceQuery): Promise<void>;
+}
+
+export interface PersonRepository {
+  insert(person: PersonInsert): Promise<PersonRow>;
+  getById(id: string, query?: PersonQuery): Promise<PersonRow | null>;
+  list(query?: PersonQuery): Promise<PersonRow[]>;
+  update(id: string, changes: PersonUpdate, query?: PersonQuery): Promise<void>;
+  /** Deletes the person together with every stored face linked to it */
+  delete(id: string, query?: PersonQuery): Promise<void>;
+}
+
+export interface NotificationRepository {
+  insert(notification: NotificationInsert): Promise<NotificationRow>;
+  list(query?: NotificationQuery): Promise<NotificationRow[]>;
+  update(id: string, changes: NotificationUpdate, query?: NotificationQuery): Promise<void>;
+  markAllAsRead(query?: NotificationQuery): Promise<void>;
+  /** Calls back for every inserted notification matching the query; returns an unsubscribe function */
+  subscribe(callback: (notification: NotificationRow) => void, query?: NotificationQuery): () => void;
+}
+
+export interface WebhookDeliveryRepository {
+  insert(delivery: WebhookDeliveryInsert): Promise<WebhookDeliveryRow>;
+  /** Newest first */
+  list(query?: WebhookDeliveryQuery): Promise<WebhookDeliveryRow[]>;
+  update(id: string, changes: WebhookDeliveryUpdate, query?: WebhookDeliveryQuery): Promise<void>;
+}
+
+/**
+ * Binary image objects addressed by path, e.g. "<user id>/faces/<id>.jpg"
+ */
+export interface ImageRepository {
+  kind: ImageStorageKind;
+  upload(path: string, image: Blob): Promise<void>;
+  /** URL the browser can load the image from; may expire */
+  getUrl(path: string): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export interface StorageRepositories {
+  kind: StorageBackendKind;
+  faces: FaceRepository;
+  persons: PersonRepository;
+  notifications: NotificationRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  images: ImageRepository;
+  getCurrentUserId(): Promise<string | null>;
+}
@@ -0,0 +1,176 @@
+/**
+ * Minimal ZIP support for photo imports and library bundles. Reads stored and
+ * deflated entries, which covers archives made by the OS "compress" commands;
+ * ZIP64 and encrypted archives are rejected. Writes stored (uncompressed)
+ * entries, since JPEGs do not compress further.
+ */
+
+export interface ZipEntry {
+  path: string;
+  size: number;
+  read: () => Promise<Blob>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const UTF8_FLAG = 0x800;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const readView = async (blob: Blob, start: number, end?: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readEntry = async (zip: Blob, offset: number, method: number, compressedSize: number): Promise<Blob> => {
+  const header = await readView(zip, offset, offset + 30);
+  if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP entry');
+  }
+
+  const dataStart = offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = zip.slice(dataStart, dataStart + compressedSize);
+
+  if (method === 0) return data;
+  if (method === 8) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot unpack compressed ZIP files');
+    }
+    return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+  }
+  throw new Error(`Unsupported ZIP compression method ${method}`);
+};
+
+/**
+ * List the files in a ZIP archive; each entry is only unpacked when read
+ */
+export const readZipEntries = async (zip: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes plus an optional comment
+  const tailStart = Math.max(0, zip.size - 22 - MAX_COMMENT_LENGTH);
+  const tail = await readView(zip, tailStart);
+
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP file');
+
+  const count = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  if (directoryOffset === 0xffffffff || count === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const directory = await readView(zip, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP directory');
+    }
+
+    const flags = directory.getUint16(position + 8, true);
+    const method = directory.getUint16(position + 10, true);
+    const compressedSize = directory.getUint32(position + 20, true);
+    const size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const localOffset = directory.getUint32(position + 42, true);
+    const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength));
+
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // Folders have no content of their own
+    if (path.endsWith('/')) continue;
+    if (flags & 0x1) throw new Error('Encrypted ZIP archives are not supported');
+
+    entries.push({ path, size, read: () => readEntry(zip, localOffset, method, compressedSize) });
+  }
+
+  return entries;
+};
+
+/**
+ * Build a ZIP archive from files given as text or binary content
+ */
+export const createZip = async (files: { path: string; data: Blob | string }[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = typeof file.data === 'string'
+      ? encoder.encode(file.data)
+      : new Uint8Array(await file.data.arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+
+    parts.push(local.buffer, name, data);
+    directory.push(new Uint8Array(central.buffer));
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+};
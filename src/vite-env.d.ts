@@ -1,6 +1,13 @@
 
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  // 'supabase' (default) or 'indexeddb' for a fully local, offline build
+  readonly VITE_STORAGE_BACKEND?: string;
+  // 'supabase' (bucket) or 'local' (dev server files); defaults to match the backend
+  readonly VITE_IMAGE_STORAGE?: string;
+}
+
 // Add augmentation for face-api.js to include missing types
 declare module 'face-api.js' {
   interface FaceExpressions {
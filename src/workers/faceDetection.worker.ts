@@ -0,0 +1,73 @@
+import * as faceapi from '@vladmandic/face-api';
+import { DetectionPipeline, DetectorConfig, PipelineMode } from '@/services/DetectionPipeline';
+import { MODEL_URL } from '@/services/ModelLoadingService';
+import { SerializedFace, WorkerRequest, WorkerResponse } from './faceDetectionProtocol';
+
+// Workers have no DOM, so face-api draws its inputs onto OffscreenCanvas instead
+faceapi.env.monkeyPatch({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+});
+
+// Reused for every frame to avoid reallocating GPU textures
+let canvas: OffscreenCanvas | null = null;
+
+let modelUrl = MODEL_URL;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const detect = async (
+  frame: ImageBitmap,
+  config: DetectorConfig,
+  mode: PipelineMode
+): Promise<SerializedFace[]> => {
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+  }
+  canvas.getContext('2d')?.drawImage(frame, 0, 0);
+  frame.close();
+
+  // Switching mode or detector loads the extra models on the first frame
+  await DetectionPipeline.loadModels(mode, config.detector, modelUrl);
+
+  const detections = await DetectionPipeline.detectAll(canvas as unknown as HTMLCanvasElement, config, mode);
+
+  return detections.map(detection => {
+    const { x, y, width, height } = detection.detection.box;
+
+    return {
+      box: { x, y, width, height },
+      score: detection.detection.score,
+      landmarks: detection.landmarks?.positions.map(point => ({ x: point.x, y: point.y })),
+      descriptor: detection.descriptor,
+      expressions: detection.expressions ? { ...detection.expressions } : undefined,
+      age: detection.age,
+      gender: detection.gender,
+    };
+  });
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'load') {
+    try {
+      modelUrl = request.modelUrl;
+      await DetectionPipeline.loadModels(request.mode, request.detector, modelUrl);
+      post({ type: 'loaded' });
+    } catch (error) {
+      post({ type: 'error', message: (error as Error).message });
+    }
+    return;
+  }
+
+  const { id, frame, config, mode } = request;
+  const { width, height } = frame;
+
+  try {
+    const faces = await detect(frame, config, mode);
+    post({ type: 'result', id, width, height, faces });
+  } catch (error) {
+    post({ type: 'error', id, message: (error as Error).message });
+  }
+};
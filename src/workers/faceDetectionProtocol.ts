@@ -0,0 +1,23 @@
+import type { DetectorConfig, DetectorKind, PipelineMode } from '@/services/DetectionPipeline';
+
+// Messages exchanged between the camera and the face detection worker
+
+// Stages the pipeline mode skipped are left out
+export interface SerializedFace {
+  box: { x: number; y: number; width: number; height: number };
+  score: number;
+  landmarks?: { x: number; y: number }[];
+  descriptor?: Float32Array;
+  expressions?: Record<string, number>;
+  age?: number;
+  gender?: string;
+}
+
+export type WorkerRequest =
+  | { type: 'load'; modelUrl: string; mode: PipelineMode; detector: DetectorKind }
+  | { type: 'detect'; id: number; frame: ImageBitmap; config: DetectorConfig; mode: PipelineMode };
+
+export type WorkerResponse =
+  | { type: 'loaded' }
+  | { type: 'result'; id: number; width: number; height: number; faces: SerializedFace[] }
+  | { type: 'error'; id?: number; message: string };
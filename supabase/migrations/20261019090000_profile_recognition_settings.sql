@@ -0,0 +1,3 @@
+-- Per-user detector and matching settings edited on the Profile page
+alter table public.profiles
+  add column if not exists recognition_settings jsonb;
@@ -0,0 +1,3 @@
+-- Quality score (0-1) of each face sample, used to weight matching
+alter table public.stored_faces
+  add column if not exists quality_score real;
@@ -0,0 +1,27 @@
+-- Face images live in a storage bucket; rows keep the object path and a small thumbnail.
+-- Existing rows keep their inline data URL in "image" until re-saved.
+alter table public.stored_faces
+  alter column image drop not null,
+  add column if not exists image_path text,
+  add column if not exists thumbnail text;
+
+alter table public.recognition_notifications
+  add column if not exists image_path text,
+  add column if not exists thumbnail text;
+
+insert into storage.buckets (id, name, public)
+values ('face-images', 'face-images', false)
+on conflict (id) do nothing;
+
+-- Objects are stored under "<user id>/...", and users only reach their own folder
+create policy "Users read their own face images"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'face-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users upload their own face images"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'face-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own face images"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'face-images' and (storage.foldername(name))[1] = auth.uid()::text);
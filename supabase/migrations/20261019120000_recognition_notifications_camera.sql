@@ -0,0 +1,4 @@
+-- Camera that produced each recognition event, for multi-camera setups
+alter table public.recognition_notifications
+  add column if not exists camera_id text,
+  add column if not exists camera_label text;
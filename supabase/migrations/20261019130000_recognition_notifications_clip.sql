@@ -0,0 +1,3 @@
+-- Short video clip around each recognition event, stored in the face-images bucket
+alter table public.recognition_notifications
+  add column if not exists clip_path text;
@@ -0,0 +1,3 @@
+-- Per-person override of the notification cooldown; null uses the global setting
+alter table public.persons
+  add column if not exists notification_cooldown_seconds integer;
@@ -0,0 +1,3 @@
+-- Per-user notification rules edited on the Profile page
+alter table public.profiles
+  add column if not exists notification_rules jsonb;
@@ -0,0 +1,36 @@
+-- Outbound webhook endpoints, edited on the Profile page
+alter table public.profiles
+  add column if not exists webhooks jsonb;
+
+-- One row per webhook delivery, updated after every attempt
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  endpoint_id text not null,
+  endpoint_url text not null,
+  event_type text not null,
+  payload jsonb not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  response_status integer,
+  error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_user_id_created_at_idx
+  on public.webhook_deliveries (user_id, created_at desc);
+
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Users read their own webhook deliveries"
+  on public.webhook_deliveries for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users record their own webhook deliveries"
+  on public.webhook_deliveries for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own webhook deliveries"
+  on public.webhook_deliveries for update to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,4 @@
+-- Unknown-face alerts share the notifications table; the user enrolls or dismisses them
+alter table public.recognition_notifications
+  add column if not exists kind text not null default 'recognition',
+  add column if not exists resolution text;
@@ -0,0 +1,102 @@
+-- Every face, person and notification belongs to one account, enforced by the
+-- database rather than only by the app's user_id filters.
+
+-- Faces saved before user_id was set take the owner of their person, and
+-- notifications the owner of their face
+update public.stored_faces f
+  set user_id = p.user_id
+  from public.persons p
+  where f.user_id is null and f.person_id = p.id and p.user_id is not null;
+
+update public.recognition_notifications n
+  set user_id = f.user_id
+  from public.stored_faces f
+  where n.user_id is null and n.face_id = f.id and f.user_id is not null;
+
+-- A single-account project owns everything that is left
+do $$
+declare
+  only_user uuid;
+begin
+  if (select count(*) from auth.users) = 1 then
+    select id into only_user from auth.users;
+    update public.stored_faces set user_id = only_user where user_id is null;
+    update public.persons set user_id = only_user where user_id is null;
+    update public.recognition_notifications set user_id = only_user where user_id is null;
+  end if;
+end $$;
+
+-- Rows written without an owner get the signed-in user
+alter table public.stored_faces alter column user_id set default auth.uid();
+alter table public.persons alter column user_id set default auth.uid();
+alter table public.recognition_notifications alter column user_id set default auth.uid();
+
+-- Replace whatever policies the tables had, so none of them can widen access
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in ('stored_faces', 'persons', 'recognition_notifications')
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end $$;
+
+alter table public.stored_faces enable row level security;
+alter table public.persons enable row level security;
+alter table public.recognition_notifications enable row level security;
+
+create policy "Users read their own faces"
+  on public.stored_faces for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users store their own faces"
+  on public.stored_faces for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own faces"
+  on public.stored_faces for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own faces"
+  on public.stored_faces for delete to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users read their own persons"
+  on public.persons for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users create their own persons"
+  on public.persons for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own persons"
+  on public.persons for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own persons"
+  on public.persons for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Realtime applies the select policy, so subscribers only receive their own inserts
+create policy "Users read their own notifications"
+  on public.recognition_notifications for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users record their own notifications"
+  on public.recognition_notifications for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own notifications"
+  on public.recognition_notifications for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users delete their own notifications"
+  on public.recognition_notifications for delete to authenticated
+  using (user_id = auth.uid());
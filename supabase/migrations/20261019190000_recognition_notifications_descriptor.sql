@@ -0,0 +1,3 @@
+-- Unknown-face alerts keep the face descriptor, so they can be enrolled without detecting the snapshot again
+alter table public.recognition_notifications
+  add column if not exists descriptor double precision[];
@@ -1,8 +1,218 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import crypto from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Event clips are stored next to the images
+const CONTENT_TYPES: Record<string, string> = {
+  ".webm": "video/webm",
+  ".mp4": "video/mp4",
+};
+
+// The dev server listens on every interface, but stored faces are only served to this machine
+const isLoopback = (address: string | undefined): boolean =>
+  address === "127.0.0.1" || address === "::1" || address === "::ffff:127.0.0.1";
+
+// Development stand-in for the face image bucket: stores uploads under .local-images/
+const localImageStorage = (): Plugin => {
+  const root = path.resolve(__dirname, ".local-images");
+
+  return {
+    name: "local-image-storage",
+    configureServer(server) {
+      server.middlewares.use("/__local-images", (req, res) => {
+        if (!isLoopback(req.socket.remoteAddress)) {
+          res.statusCode = 403;
+          res.end();
+          return;
+        }
+
+        const relative = decodeURIComponent((req.url || "").split("?")[0]).replace(/^\/+/, "");
+        const file = path.resolve(root, relative);
+
+        // Keep requests inside the storage folder
+        if (!relative || !file.startsWith(root + path.sep)) {
+          res.statusCode = 400;
+          res.end();
+          return;
+        }
+
+        if (req.method === "PUT") {
+          const chunks: Buffer[] = [];
+          req.on("data", chunk => chunks.push(chunk));
+          req.on("end", () => {
+            try {
+              fs.mkdirSync(path.dirname(file), { recursive: true });
+              fs.writeFileSync(file, Buffer.concat(chunks));
+              res.statusCode = 204;
+            } catch (error) {
+              // e.g. the path names a folder
+              server.config.logger.error(`[local-image-storage] ${relative}: ${error}`);
+              res.statusCode = 409;
+            }
+            res.end();
+          });
+          return;
+        }
+
+        // Folders are never objects, so they are not found either
+        if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+
+        if (req.method === "DELETE") {
+          fs.unlinkSync(file);
+          res.statusCode = 204;
+          res.end();
+          return;
+        }
+
+        res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] || "image/jpeg");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+  };
+};
+
+// Development stand-in for a webhook receiver. POST records the request and
+// answers 204; `?secret=` checks the signature and `?fail=N` answers 503 to the
+// first N attempts of each event to exercise retries. GET lists what arrived.
+const webhookReceiver = (): Plugin => {
+  const MAX_RECEIVED = 50;
+  const received: Record<string, unknown>[] = [];
+  const attempts = new Map<string, number>();
+
+  return {
+    name: "webhook-receiver",
+    configureServer(server) {
+      server.middlewares.use("/__webhook-receiver", (req, res) => {
+        const query = new URL(req.url || "/", "http://localhost").searchParams;
+
+        if (req.method === "GET") {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(received, null, 2));
+          return;
+        }
+
+        if (req.method !== "POST") {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        req.on("data", chunk => chunks.push(chunk));
+        req.on("end", () => {
+          const body = Buffer.concat(chunks).toString("utf8");
+          const eventId = String(req.headers["x-webhook-id"] || "");
+          const timestamp = String(req.headers["x-webhook-timestamp"] || "");
+          const signature = String(req.headers["x-webhook-signature"] || "");
+          const attempt = (attempts.get(eventId) ?? 0) + 1;
+          attempts.set(eventId, attempt);
+
+          const secret = query.get("secret");
+          const expected = secret
+            ? "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+            : null;
+          const status = attempt <= Number(query.get("fail") || 0) ? 503 : 204;
+
+          let payload: unknown = body;
+          try {
+            payload = JSON.parse(body);
+          } catch {
+            // Recorded as text
+          }
+
+          received.unshift({
+            received_at: new Date().toISOString(),
+            event_id: eventId,
+            attempt,
+            status,
+            signature_valid: expected === null ? null : expected === signature,
+            payload,
+          });
+          received.splice(MAX_RECEIVED);
+          server.config.logger.info(`[webhook-receiver] ${eventId} attempt ${attempt} -> ${status}`);
+
+          res.statusCode = status;
+          res.end();
+        });
+      });
+    },
+  };
+};
+
+// Serves face-api weights from /models without any CDN: files dropped into
+// public/models win, anything else comes from the installed package. Also
+// publishes /models/integrity.json with the SHA-256 and size of every file.
+const faceModels = (): Plugin => {
+  const publicDir = path.resolve(__dirname, "public/models");
+  const packageDir = path.resolve(__dirname, "node_modules/@vladmandic/face-api/model");
+
+  const listFiles = (): Map<string, string> => {
+    const files = new Map<string, string>();
+    for (const dir of [packageDir, publicDir]) {
+      if (!fs.existsSync(dir)) continue;
+      for (const name of fs.readdirSync(dir)) {
+        if (/\.(json|bin)$/.test(name) && name !== "integrity.json") {
+          files.set(name, path.join(dir, name));
+        }
+      }
+    }
+    return files;
+  };
+
+  const buildIntegrity = (files: Map<string, string>): string => {
+    const entries: Record<string, { sha256: string; size: number }> = {};
+    for (const [name, file] of files) {
+      const content = fs.readFileSync(file);
+      entries[name] = { sha256: crypto.createHash("sha256").update(content).digest("hex"), size: content.length };
+    }
+    return JSON.stringify({ files: entries }, null, 2);
+  };
+
+  return {
+    name: "face-models",
+    configureServer(server) {
+      server.middlewares.use("/models", (req, res, next) => {
+        const name = decodeURIComponent((req.url || "").split("?")[0]).replace(/^\/+/, "");
+        const files = listFiles();
+
+        if (name === "integrity.json") {
+          res.setHeader("Content-Type", "application/json");
+          res.end(buildIntegrity(files));
+          return;
+        }
+
+        const file = files.get(name);
+        // Public files are left to Vite; unknown names get a real 404 instead of index.html
+        if (file && file.startsWith(publicDir)) return next();
+        if (!file) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+
+        res.setHeader("Content-Type", name.endsWith(".json") ? "application/json" : "application/octet-stream");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      const files = listFiles();
+      for (const [name, file] of files) {
+        // Vite already copies the public folder
+        if (file.startsWith(publicDir)) continue;
+        this.emitFile({ type: "asset", fileName: `models/${name}`, source: fs.readFileSync(file) });
+      }
+      this.emitFile({ type: "asset", fileName: "models/integrity.json", source: buildIntegrity(files) });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +221,9 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    localImageStorage(),
+    webhookReceiver(),
+    faceModels(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),